@@ -1,36 +1,80 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { BeeFile, StorageStatus, User, AuthMode, FileCategory } from './types';
-import { getMetadata, saveMetadata, saveFileBlob, getFileBlob, deleteFileBlob, formatFileSize, detectCategory } from './services/storageService';
+import { BeeFile, BeeFileVersion, BeeFolder, BeeShare, ShareTargetKind, FileMarks, FileClassification, LabelColor, HiveKeyState, User, AuthMode, FileCategory, SearchScope, HiveView, FileLayout, SortBy, SortOrder, ArchiveImportMode, ArchiveProgress } from './types';
+import { getMetadata, updateFiles, deleteFiles, getOwnerVersions, deleteVersions, restoreVersion, getFolders, saveFolders, trashFolders, encryptExistingFiles, formatFileSize, isPersistentStorage, getUploadLimit, migrateBlobsToOpfs } from './services/storageService';
+import { HiveLockedError, getKeyState, createKeyring, unlockKeyring, lockKeyring, rewrapKeyring } from './services/cryptoService';
+import { DEFAULT_QUOTA_BYTES, StorageEstimateInfo, getUserQuota, setUserQuota, getStorageEstimate, isStoragePersisted, requestStoragePersistence, getHiveUsage, computeQuota } from './services/quotaService';
+import { AuthError, signUp, logIn, verifyPassword, changePassword, getSessionUser, touchSession, endSession } from './services/authService';
+import { DEFAULT_VERSION_LIMIT, getVersionLimit, setVersionLimit, getExcessVersions } from './services/versionService';
+import { DEFAULT_RETENTION_DAYS, getRetentionDays, setRetentionDays, isTrashed, getExpiredTrash, daysUntilPurge } from './services/trashService';
+import { exportHive, importHive, zipFiles } from './services/archiveService';
+import { ContentMatch, indexFile, indexMissingFiles, searchContent, matchesName, relevance } from './services/searchService';
+import { getThumbnailKind, createMissingThumbnails, loadThumbnail } from './services/thumbnailService';
+import { resumeProcessing } from './services/processingService';
+import { acceptClassification, dismissClassification, classifyStoredFile, matchesClassification, isFlaggedSensitive, subscribeClassifications, getClassification } from './services/classificationService';
+import { ShareOptions, createShare, listShares, revokeShare } from './services/shareService';
+import { applyRecordChanges, subscribeHiveChanges } from './services/syncService';
+import { DEFAULT_LOCATION, formatRoute, isRootLocation } from './services/routeService';
+import { parseQuery, matchesQuery, collectTextTerms, isPlainText } from './services/queryService';
+import { LABEL_COLORS, countTags, applyMarks, addTag, removeTag, normalizeTag } from './services/tagService';
+import { FILE_DRAG_TYPE, getFolderPath, getChildFolders, getDescendantFolderIds, isFolderNameTaken } from './services/folderService';
+import { downloadBlob } from './services/downloadService';
 import Background from './components/Background';
 import PreviewModal from './components/PreviewModal';
 import UploadArea from './components/UploadArea';
-import { BeeIcon, FileIcon, TrashIcon, EyeIcon, SearchIcon, PlusIcon, HexagonIcon, SortIcon, LogoutIcon, PlayIcon, ImageIcon, MusicIcon, FolderIcon, ChevronDownIcon } from './components/Icons';
+import Breadcrumbs from './components/Breadcrumbs';
+import MoveDialog from './components/MoveDialog';
+import UploadTray from './components/UploadTray';
+import SecurityPanel from './components/SecurityPanel';
+import ArchivePanel from './components/ArchivePanel';
+import SearchBox from './components/SearchBox';
+import MarksDialog from './components/MarksDialog';
+import TagSidebar from './components/TagSidebar';
+import BulkActionBar from './components/BulkActionBar';
+import FileTable from './components/FileTable';
+import ShareDialog from './components/ShareDialog';
+import SharesPanel from './components/SharesPanel';
+import ProcessingStatus from './components/ProcessingStatus';
+import { LABEL_SWATCHES } from './components/FileMarksEditor';
+import { useSelection } from './hooks/useSelection';
+import { useUploadQueue } from './hooks/useUploadQueue';
+import { useVirtualGrid } from './hooks/useVirtualGrid';
+import { useRoute } from './hooks/useRoute';
+import { BeeIcon, FileIcon, TrashIcon, EyeIcon, PlusIcon, HexagonIcon, SortIcon, LogoutIcon, PlayIcon, ImageIcon, MusicIcon, FolderIcon, ChevronDownIcon, FolderPlusIcon, MoveIcon, EditIcon, LockIcon, ShieldIcon, RestoreIcon, ArchiveIcon, StarIcon, TagIcon, CheckIcon, GridIcon, ListIcon, ShareIcon } from './components/Icons';
 
-type SortBy = 'name' | 'size' | 'date' | 'category';
-type SortOrder = 'asc' | 'desc';
-
-const FileThumbnail: React.FC<{ file: BeeFile }> = ({ file }) => {
+// revision changes whenever background work may have produced new thumbnails
+const FileThumbnail: React.FC<{ file: BeeFile, keyState: HiveKeyState, revision: number }> = ({ file, keyState, revision }) => {
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
 
   useEffect(() => {
     let url: string | null = null;
-    if (file.category === 'images') {
-      getFileBlob(file.blobId).then(blob => {
+    const controller = new AbortController();
+    setThumbnailUrl(null);
+    if (getThumbnailKind(file)) {
+      loadThumbnail(file, controller.signal).then(blob => {
+        if (!blob || controller.signal.aborted) return;
         url = URL.createObjectURL(blob);
         setThumbnailUrl(url);
-      }).catch(err => console.error("Thumbnail error:", err));
+      }).catch(err => {
+        if (!(err instanceof HiveLockedError) && !(err instanceof DOMException && err.name === 'AbortError')) console.error("Thumbnail error:", err);
+      });
     }
     return () => {
+      controller.abort();
       if (url) URL.revokeObjectURL(url);
     };
-  }, [file]);
+  }, [file.blobId, keyState, revision]);
 
-  if (file.category === 'images' && thumbnailUrl) {
+  if (thumbnailUrl) {
     return (
-      <div className="w-full h-full relative overflow-hidden">
+      <div className="w-full h-full relative overflow-hidden bg-slate-50">
         <img src={thumbnailUrl} alt={file.name} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
         <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+        {file.category === 'videos' && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <PlayIcon className="w-12 h-12 text-white/90 drop-shadow-lg group-hover:scale-110 transition-transform duration-500" />
+          </div>
+        )}
       </div>
     );
   }
@@ -100,28 +144,66 @@ const FileThumbnail: React.FC<{ file: BeeFile }> = ({ file }) => {
   );
 };
 
+// Bulk metadata writes go in slices so progress can be shown and one transaction stays small
+const BULK_BATCH_SIZE = 100;
+
+// Card grid geometry, matching gap-8; columns are added while cards stay this wide
+const GRID_MIN_CARD_WIDTH = 240;
+const GRID_GAP = 32;
+
 const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('Initializing Hive...');
   const [transitioning, setTransitioning] = useState(false);
   const [user, setUser] = useState<User | null>(null);
-  const [authMode, setAuthMode] = useState<AuthMode>('landing');
+  // Where we are in the hive, and which auth page is up, live in the URL
+  const { route, navigate, updateLocation } = useRoute();
+  const hiveLocation = route.page === 'hive' ? route.location : DEFAULT_LOCATION;
+  const authMode: AuthMode = route.page === 'hive' ? 'landing' : route.page;
+  const { view, folderId: currentFolderId, category: activeCategory, query: search, sortBy, sortOrder, tag: activeTag, scope: searchScope } = hiveLocation;
   const [files, setFiles] = useState<BeeFile[]>([]);
-  const [search, setSearch] = useState('');
-  const [activeCategory, setActiveCategory] = useState<FileCategory>('all');
-  const [sortBy, setSortBy] = useState<SortBy>('date');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [uploadStatus, setUploadStatus] = useState<StorageStatus>(StorageStatus.IDLE);
-  const [selectedFile, setSelectedFile] = useState<BeeFile | null>(null);
+  const [folders, setFolders] = useState<BeeFolder[]>([]);
+  const [versions, setVersions] = useState<BeeFileVersion[]>([]);
+  // Follows the stored record, so the preview updates with it and closes once it's gone
+  const selectedFile = useMemo(() => (hiveLocation.fileId && files.find(f => f.id === hiveLocation.fileId)) || null, [files, hiveLocation.fileId]);
+  const [versionLimit, setVersionLimitState] = useState(DEFAULT_VERSION_LIMIT);
+  const [retentionDays, setRetentionDaysState] = useState(DEFAULT_RETENTION_DAYS);
+  const [movingFile, setMovingFile] = useState<BeeFile | null>(null);
+  const [markingFile, setMarkingFile] = useState<BeeFile | null>(null);
+  const [sharing, setSharing] = useState<{ kind: ShareTargetKind; target: BeeFile | BeeFolder } | null>(null);
+  const [isSharesOpen, setIsSharesOpen] = useState(false);
+  const [shares, setShares] = useState<BeeShare[] | null>(null);
+  const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null);
+  // Content index hits per free-text term of the query
+  const [contentMatches, setContentMatches] = useState<Map<string, Map<string, ContentMatch>>>(new Map());
+  const [activeLabel, setActiveLabel] = useState<LabelColor | null>(null);
+  const [starredOnly, setStarredOnly] = useState(false);
   const [globalDrag, setGlobalDrag] = useState(false);
   const [isSortOpen, setIsSortOpen] = useState(false);
+  const [layout, setLayout] = useState<FileLayout>('grid');
   const sortRef = useRef<HTMLDivElement>(null);
+  const [keyState, setKeyState] = useState<HiveKeyState>('disabled');
+  const [thumbnailRevision, setThumbnailRevision] = useState(0);
+  // Catch-up processing for the signed-in hive; reloading the hive or logging out cancels it
+  const backgroundWork = useRef<AbortController | null>(null);
+  const [isSecurityOpen, setIsSecurityOpen] = useState(false);
+  const [encryptProgress, setEncryptProgress] = useState<{ done: number, total: number } | null>(null);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<ArchiveProgress | null>(null);
+  const [bulkSummary, setBulkSummary] = useState('');
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [userQuota, setUserQuotaBytes] = useState(DEFAULT_QUOTA_BYTES);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimateInfo | null>(null);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
 
   // Auth form states
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
+  const [encryptAtRest, setEncryptAtRest] = useState(false);
   const [error, setError] = useState('');
 
   const loadingMessages = [
@@ -141,12 +223,12 @@ const App: React.FC = () => {
       if (progress >= 100) {
         progress = 100;
         clearInterval(interval);
-        setTimeout(() => {
-          const storedUser = localStorage.getItem('bee_user');
-          if (storedUser) {
-            const u = JSON.parse(storedUser);
+        setTimeout(async () => {
+          const u = getSessionUser();
+          if (u) {
             setUser(u);
-            setFiles(getMetadata().filter(f => f.ownerId === u.id));
+            setKeyState(getKeyState(u.id));
+            await loadHive(u.id).catch(err => console.error("Hive load error:", err));
           }
           setLoading(false);
         }, 800);
@@ -168,118 +250,582 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    setUserQuotaBytes(getUserQuota(user.id));
+    isStoragePersisted().then(setPersisted).catch(() => setPersisted(null));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    getStorageEstimate().then(setStorageEstimate).catch(err => console.error("Storage estimate error:", err));
+  }, [user, files]);
+
+  useEffect(() => {
+    if (!user) return;
+    const activityEvents = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+    activityEvents.forEach(evt => window.addEventListener(evt, touchSession, { passive: true }));
+    const expiryCheck = setInterval(() => {
+      if (!getSessionUser()) handleLogout('Session expired. Re-authenticate to continue.');
+    }, 30 * 1000);
+    return () => {
+      activityEvents.forEach(evt => window.removeEventListener(evt, touchSession));
+      clearInterval(expiryCheck);
+    };
+  }, [user]);
+
+  const loadHive = async (userId: string) => {
+    const [userFiles, userFolders] = await Promise.all([getMetadata(userId), getFolders(userId)]);
+    const days = getRetentionDays(userId);
+    // Trash past its retention period is purged on load rather than on a timer
+    const expired = getExpiredTrash(userFiles, days);
+    const expiredIds = new Set(expired.length ? await deleteFiles(expired, isTrashed) : []);
+    setRetentionDaysState(days);
+    setVersionLimitState(getVersionLimit(userId));
+    setFiles(userFiles.filter(f => !expiredIds.has(f.id)));
+    setFolders(userFolders);
+    setVersions(await getOwnerVersions(userId));
+    migrateBlobsToOpfs().catch(err => console.error("OPFS migration error:", err));
+    // Work journaled by an interrupted session goes first, then anything older still missing
+    backgroundWork.current?.abort();
+    const controller = new AbortController();
+    backgroundWork.current = controller;
+    const live = userFiles.filter(f => !expiredIds.has(f.id));
+    resumeProcessing(userId, live, controller.signal)
+      .then(ran => { if (ran) setThumbnailRevision(r => r + 1); })
+      .catch(err => console.error("Processing resume error:", err))
+      .then(() => {
+        indexMissingFiles(userId, live, controller.signal).catch(err => console.error("Index catch-up error:", err));
+        backfillThumbnails(live);
+      });
+  };
+
+  const backfillThumbnails = (hiveFiles: BeeFile[]) => {
+    const signal = backgroundWork.current?.signal;
+    createMissingThumbnails(hiveFiles, () => setThumbnailRevision(r => r + 1), signal).catch(err => console.error("Thumbnail backfill error:", err));
+  };
+
+  const setCurrentFolderId = (folderId: string | null) => updateLocation({ folderId });
+  const openFolder = (folderId: string) => updateLocation({ folderId, query: '' });
+  const setView = (next: HiveView) => updateLocation({ view: next });
+  const setActiveCategory = (category: FileCategory) => updateLocation({ category });
+  const setActiveTag = (tag: string | null) => updateLocation({ tag });
+  const setSearchScope = (scope: SearchScope) => updateLocation({ scope });
+  // Typing a search or re-sorting refines the page in place rather than adding history entries
+  const setSearch = (query: string) => updateLocation({ query }, { replace: true });
+  const setSort = (by: SortBy, order: SortOrder) => updateLocation({ sortBy: by, sortOrder: order }, { replace: true });
+
+  const openPreview = (file: BeeFile) => updateLocation({ fileId: file.id }, { state: { preview: true } });
+
+  // A preview opened from the grid goes back to it; one opened from a link steps up to its page
+  const closePreview = () => {
+    if ((window.history.state as { preview?: boolean } | null)?.preview) window.history.back();
+    else updateLocation({ fileId: null }, { replace: true });
+  };
+
+  // Signed-in users skip the auth pages. Signed-out visitors to anything but the
+  // root sign in first and are then sent back to where they were headed.
+  useEffect(() => {
+    if (loading) return;
+    if (user && route.page !== 'hive') navigate(route.next || '/', { replace: true });
+    else if (!user && route.page === 'hive' && !isRootLocation(route.location)) {
+      navigate({ page: 'login', next: formatRoute(route, window.location.search) }, { replace: true });
+    }
+  }, [user, route, loading]);
+
   const clearForm = () => {
     setEmail('');
     setPassword('');
     setName('');
+    setEncryptAtRest(false);
     setError('');
   };
 
   const changeAuthMode = (mode: AuthMode) => {
     setTransitioning(true);
     setTimeout(() => {
-      setAuthMode(mode);
+      navigate(mode === 'landing' ? '/' : { page: mode, next: route.page === 'hive' ? null : route.next });
       clearForm();
       setTransitioning(false);
     }, 300);
   };
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    const users = JSON.parse(localStorage.getItem('bee_users') || '[]');
-    const foundUser = users.find((u: any) => u.email === email && u.password === password);
-    if (foundUser) {
-      performLogin(foundUser);
-    } else {
-      setError('Access denied. Lattice credentials mismatch.');
+    setUnlockError('');
+    try {
+      const u = await logIn(email, password);
+      // Signed in, but the key didn't unwrap: the hive opens sealed, with the unlock prompt saying why
+      if (!(await unlockKeyring(u.id, password))) {
+        setUnlockError('Signed in, but your password could not unseal this hive. Unlock it with the password it was encrypted under.');
+      }
+      performLogin(u);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError(err.message);
+      } else {
+        console.error("Login failed:", err);
+        setError('Something went wrong while signing in. Please try again.');
+      }
     }
   };
 
-  const handleSignUp = (e: React.FormEvent) => {
+  const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    const users = JSON.parse(localStorage.getItem('bee_users') || '[]');
-    if (users.some((u: any) => u.email === email)) {
-      setError('Identity already verified in this sector.');
-      return;
+    try {
+      const u = await signUp(name, email, password);
+      if (encryptAtRest) await createKeyring(u.id, password);
+      performLogin(u);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError(err.message);
+      } else {
+        console.error("Sign up failed:", err);
+        setError('Something went wrong while creating your hive. If the account was created, try signing in.');
+      }
     }
-    const newUser = { id: Math.random().toString(36).substring(2, 9), email, name, password };
-    localStorage.setItem('bee_users', JSON.stringify([...users, newUser]));
-    performLogin(newUser);
   };
 
-  const performLogin = (u: any) => {
+  const performLogin = (u: User) => {
     setTransitioning(true);
     setTimeout(() => {
-      const sessionUser = { id: u.id, email: u.email, name: u.name };
-      localStorage.setItem('bee_user', JSON.stringify(sessionUser));
-      setUser(sessionUser);
-      setFiles(getMetadata().filter(f => f.ownerId === u.id));
+      setUser(u);
+      setKeyState(getKeyState(u.id));
+      loadHive(u.id).catch(err => console.error("Hive load error:", err));
       setTransitioning(false);
       clearForm();
     }, 400);
   };
 
-  const handleLogout = () => {
+  // Follows records as they change, keeping open dialogs on the current copy and closing them once it's gone.
+  // The preview follows on its own, see selectedFile.
+  const applyFileChanges = (saved: BeeFile[], removed: string[] = []) => {
+    const byId = new Map(saved.map(f => [f.id, f]));
+    const gone = new Set(removed);
+    const follow = (prev: BeeFile | null) => prev && (gone.has(prev.id) ? null : byId.get(prev.id) || prev);
+    setFiles(prev => applyRecordChanges(prev, { saved, removed }));
+    setMarkingFile(follow);
+    setMovingFile(follow);
+  };
+
+  // Writes made in other tabs of this hive
+  useEffect(() => {
+    if (!user) return;
+    return subscribeHiveChanges(change => {
+      if (change.reset) {
+        loadHive(user.id).catch(err => console.error("Hive reload error:", err));
+        return;
+      }
+      const own = <R extends { ownerId: string }>(records: R[]) => records.filter(r => r.ownerId === user.id);
+      applyFileChanges(own(change.files.saved), change.files.removed);
+      setFolders(prev => applyRecordChanges(prev, { saved: own(change.folders.saved), removed: change.folders.removed }));
+      setVersions(prev => applyRecordChanges(prev, { saved: own(change.versions.saved), removed: change.versions.removed }));
+      if (change.folders.removed.length) {
+        updateLocation(location => (location.folderId !== null && change.folders.removed.includes(location.folderId) ? { folderId: null } : {}), { replace: true });
+      }
+      if (change.thumbnails.length) setThumbnailRevision(r => r + 1);
+    });
+  }, [user]);
+
+  // Suggestions BeeAI made in the background in this tab
+  useEffect(() => {
+    if (!user) return;
+    return subscribeClassifications(saved => applyFileChanges(saved.filter(f => f.ownerId === user.id)));
+  }, [user]);
+
+  const handleLogout = (reason?: string) => {
     setTransitioning(true);
     setTimeout(() => {
-      localStorage.removeItem('bee_user');
+      backgroundWork.current?.abort();
+      backgroundWork.current = null;
+      endSession();
+      if (user) lockKeyring(user.id);
+      setKeyState('disabled');
+      setIsSecurityOpen(false);
+      setIsArchiveOpen(false);
+      setIsSharesOpen(false);
+      setSharing(null);
       setUser(null);
       setFiles([]);
-      setAuthMode('landing');
+      setFolders([]);
+      setVersions([]);
+      // An expired session comes back to the same page after signing in again
+      const here = window.location.pathname + window.location.search;
+      navigate(reason ? { page: 'login', next: here === '/' ? null : here } : '/', { replace: true });
+      setError(reason || '');
       setTransitioning(false);
     }, 400);
   };
 
-  const handleUpload = async (fileList: FileList) => {
+  const uploads = useUploadQueue((stored, superseded) => {
+    // Ignore late completions for a user who has since logged out
+    if (!user || stored.ownerId !== user.id) return;
+    setFiles(prev => superseded ? prev.map(f => f.id === stored.id ? stored : f) : [...prev, stored]);
+    if (superseded) {
+      getOwnerVersions(user.id).then(setVersions).catch(err => console.error("Version load error:", err));
+    }
+  }, () => quota.remaining);
+
+  const handleUpload = (fileList: FileList) => {
     if (!user) return;
-    setUploadStatus(StorageStatus.UPLOADING);
-    const newFiles: BeeFile[] = [];
+    if (keyState === 'locked') {
+      alert(new HiveLockedError().message);
+      return;
+    }
+    const rejected = uploads.enqueue(fileList, user.id, currentFolderId, user.name);
+    if (rejected.length > 0) {
+      alert(`${rejected.length === 1 ? `"${rejected[0].file.name}" was` : `${rejected.length} files were`} not added: ${rejected[0].error}.`);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setUnlockError('');
+    if (await unlockKeyring(user.id, unlockPassword)) {
+      setKeyState(getKeyState(user.id));
+      setUnlockPassword('');
+      // Sealed files can only be rendered once the key is back
+      backfillThumbnails(files);
+    } else {
+      setUnlockError('Key rejected. Check your password.');
+    }
+  };
+
+  const handleLock = () => {
+    if (!user) return;
+    lockKeyring(user.id);
+    setKeyState(getKeyState(user.id));
+  };
+
+  const handleEnableEncryption = async (pw: string): Promise<string | null> => {
+    if (!user) return 'No active identity.';
+    if (!(await verifyPassword(user.id, pw))) return 'Password mismatch.';
     try {
-      for (let i = 0; i < fileList.length; i++) {
-        const file = fileList[i];
-        if (file.size > 300 * 1024 * 1024) continue;
-        const id = Math.random().toString(36).substring(7);
-        const beeFile: BeeFile = {
-          id,
-          blobId: `blob_${id}`,
-          name: file.name,
-          type: file.type || 'application/octet-stream',
-          size: file.size,
-          lastModified: file.lastModified,
-          ownerId: user.id,
-          category: detectCategory(file.type || '')
-        };
-        await saveFileBlob(beeFile.blobId, file);
-        newFiles.push(beeFile);
-      }
-      const updatedMetadata = [...getMetadata(), ...newFiles];
-      saveMetadata(updatedMetadata);
-      setFiles(prev => [...prev, ...newFiles]);
-      setUploadStatus(StorageStatus.SUCCESS);
-      setTimeout(() => setUploadStatus(StorageStatus.IDLE), 3000);
+      await createKeyring(user.id, pw);
+      setKeyState(getKeyState(user.id));
+      setEncryptProgress({ done: 0, total: files.length });
+      await encryptExistingFiles(user.id, (done, total) => setEncryptProgress({ done, total }));
+      await loadHive(user.id);
+      return null;
+    } catch (err) {
+      console.error(err);
+      return 'Sealing failed. Files not yet sealed remain readable.';
+    } finally {
+      setEncryptProgress(null);
+    }
+  };
+
+  const handleChangePassword = async (currentPw: string, newPw: string): Promise<string | null> => {
+    if (!user) return 'No active identity.';
+    if (!(await verifyPassword(user.id, currentPw))) return 'Current password mismatch.';
+    try {
+      // Re-wrap first: if it fails, the old password still opens both the account and the key
+      await rewrapKeyring(user.id, currentPw, newPw);
     } catch (err) {
       console.error(err);
-      setUploadStatus(StorageStatus.ERROR);
+      return 'Key re-wrap failed. Password unchanged.';
     }
+    try {
+      await changePassword(user.id, currentPw, newPw);
+    } catch (err) {
+      console.error(err);
+      // Put the key back under the password the account still opens with
+      try {
+        await rewrapKeyring(user.id, newPw, currentPw);
+      } catch (rollbackErr) {
+        console.error("Key rollback failed:", rollbackErr);
+        return 'Password change failed, and your key now opens with the new password only. Try changing it again.';
+      }
+      return err instanceof AuthError ? err.message : 'Password change failed. Password unchanged.';
+    }
+    setKeyState(getKeyState(user.id));
+    return null;
   };
 
+  const handleCreateShare = (options: ShareOptions) => {
+    if (!user || !sharing) return Promise.reject(new Error('Nothing to share.'));
+    return createShare(user, sharing.target, sharing.kind, options);
+  };
+
+  const handleOpenShares = async () => {
+    if (!user) return;
+    setShares(null);
+    setIsSharesOpen(true);
+    try {
+      setShares(await listShares(user.id));
+    } catch (err) {
+      console.error("Failed to load shares:", err);
+      setShares([]);
+    }
+  };
+
+  const handleRevokeShare = async (share: BeeShare) => {
+    await revokeShare(share.token);
+    setShares(prev => prev && prev.filter(s => s.token !== share.token));
+  };
+
+  // Progress arrives per chunk; only re-render every so often
+  const throttledProgress = (setProgress: (progress: ArchiveProgress) => void) => {
+    let last = 0;
+    return (progress: ArchiveProgress) => {
+      const now = Date.now();
+      if (now - last < 100 && progress.loaded < progress.total) return;
+      last = now;
+      setProgress(progress);
+    };
+  };
+
+  const handleExportHive = async () => {
+    try {
+      const archive = await exportHive(throttledProgress(setArchiveProgress));
+      downloadBlob(archive, `bee-hive-${new Date().toISOString().slice(0, 10)}.zip`);
+    } finally {
+      setArchiveProgress(null);
+    }
+  };
+
+  const handleImportHive = async (archive: File, mode: ArchiveImportMode): Promise<string> => {
+    if (!user) return 'No active identity.';
+    let result;
+    try {
+      result = await importHive(archive, mode, throttledProgress(setArchiveProgress));
+    } finally {
+      setArchiveProgress(null);
+    }
+    const current = getSessionUser();
+    if (!current) {
+      handleLogout('Your account is not in the imported hive. Sign in with one that is.');
+      return 'Import complete.';
+    }
+    // A replaced keyring may wrap a different key; make the user unlock it afresh
+    if (mode === 'replace') lockKeyring(current.id);
+    setUser(current);
+    setKeyState(getKeyState(current.id));
+    setCurrentFolderId(null);
+    await loadHive(current.id);
+    const skipped = result.skippedUsers ? ` ${result.skippedUsers} account(s) skipped: email already in use.` : '';
+    return `Imported ${result.files} file(s) and ${result.blobs} blob(s).${skipped}`;
+  };
+
+  // Writes started from a click have no caller to hand a failure to, so the user hears about it here.
+  // Each is one transaction, so a failed one leaves the hive as it was.
+  const reportWriteFailure = (action: string, err: unknown) => {
+    console.error(`${action} failed:`, err);
+    alert(`${action} failed: ${err instanceof Error ? err.message : 'unknown error'}. Nothing was changed.`);
+  };
+
+  // Live files go to the trash; deleting from the trash is permanent
   const handleDelete = async (id: string) => {
-    if (!window.confirm('Eject this entry from the Hive?')) return;
     const fileToDelete = files.find(f => f.id === id);
-    if (fileToDelete) {
-      await deleteFileBlob(fileToDelete.blobId);
-      const updatedFiles = files.filter(f => f.id !== id);
-      setFiles(updatedFiles);
-      const allMetadata = getMetadata();
-      saveMetadata(allMetadata.filter(f => f.id !== id));
+    if (!fileToDelete) return;
+    if (isTrashed(fileToDelete)) {
+      if (!window.confirm(`Permanently eject "${fileToDelete.name}"? This cannot be undone.`)) return;
+      try {
+        // Left alone if another tab restored it meanwhile
+        const removed = await deleteFiles([fileToDelete], isTrashed);
+        applyFileChanges([], removed);
+        setVersions(prev => prev.filter(v => !removed.includes(v.fileId)));
+      } catch (err) {
+        return reportWriteFailure('Ejecting the asset', err);
+      }
+    } else {
+      const deletedAt = Date.now();
+      try {
+        applyFileChanges(await updateFiles([id], f => isTrashed(f) ? f : { ...f, deletedAt }));
+      } catch (err) {
+        return reportWriteFailure('Moving the asset to the trash', err);
+      }
+    }
+    if (selectedFile?.id === id) closePreview();
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      applyFileChanges(await updateFiles([id], f => {
+        if (!isTrashed(f)) return f;
+        const { deletedAt: _deletedAt, ...rest } = f;
+        // The original cell may have been ejected meanwhile; fall back to the root
+        const parentId = rest.parentId !== null && folders.some(folder => folder.id === rest.parentId) ? rest.parentId : null;
+        return { ...rest, parentId };
+      }));
+    } catch (err) {
+      reportWriteFailure('Restoring the asset', err);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const trashed = files.filter(isTrashed);
+    if (!trashed.length || !window.confirm(`Permanently eject ${trashed.length} asset(s) from the trash? This cannot be undone.`)) return;
+    try {
+      const removed = new Set(await deleteFiles(trashed, isTrashed));
+      applyFileChanges([], Array.from(removed));
+      setVersions(prev => prev.filter(v => !removed.has(v.fileId)));
+    } catch (err) {
+      reportWriteFailure('Emptying the trash', err);
+    }
+  };
+
+  const handleAdjustRetention = () => {
+    if (!user) return;
+    const input = window.prompt('Days to keep trashed assets before purging:', retentionDays.toString());
+    if (input === null) return;
+    const days = parseInt(input, 10);
+    if (!Number.isInteger(days) || days < 1) {
+      alert('Retention must be a whole number of days, at least 1.');
+      return;
+    }
+    setRetentionDays(user.id, days);
+    setRetentionDaysState(days);
+  };
+
+  const handleRestoreVersion = async (version: BeeFileVersion) => {
+    if (!user) return;
+    const restored = await restoreVersion(version.fileId, version, user.name, versionLimit);
+    applyFileChanges([restored]);
+    setVersions(await getOwnerVersions(user.id));
+    await indexFile(restored).catch(err => console.error("Indexing failed:", err));
+  };
+
+  const handleDeleteVersion = async (version: BeeFileVersion) => {
+    if (!window.confirm(`Permanently delete version ${version.version}? This cannot be undone.`)) return;
+    try {
+      await deleteVersions([version]);
+    } catch (err) {
+      return reportWriteFailure('Deleting the version', err);
+    }
+    setVersions(prev => prev.filter(v => v.id !== version.id));
+  };
+
+  const handleAdjustVersionLimit = async () => {
+    if (!user) return;
+    const input = window.prompt('Past versions to keep per file:', versionLimit.toString());
+    if (input === null) return;
+    const limit = parseInt(input, 10);
+    if (!Number.isInteger(limit) || limit < 0) {
+      alert('The version cap must be a whole number, 0 or more.');
+      return;
+    }
+    const excess = getExcessVersions(versions, limit);
+    if (excess.length && !window.confirm(`Lowering the cap deletes ${excess.length} older version(s). Continue?`)) return;
+    // The cap is only saved once the versions it no longer allows are gone, so the two never disagree
+    if (excess.length) {
+      try {
+        await deleteVersions(excess);
+      } catch (err) {
+        return reportWriteFailure('Lowering the version cap', err);
+      }
+      const excessIds = new Set(excess.map(v => v.id));
+      setVersions(prev => prev.filter(v => !excessIds.has(v.id)));
+    }
+    setVersionLimit(user.id, limit);
+    setVersionLimitState(limit);
+  };
+
+  const handleMoveFile = async (fileId: string, folderId: string | null) => {
+    const target = files.find(f => f.id === fileId);
+    if (!target || target.parentId === folderId) return;
+    try {
+      applyFileChanges(await updateFiles([fileId], f => f.parentId === folderId ? f : { ...f, parentId: folderId }));
+    } catch (err) {
+      reportWriteFailure('Moving the asset', err);
+    }
+  };
+
+  const handleChangeMarks = async (fileId: string, marks: FileMarks) => {
+    try {
+      applyFileChanges(await updateFiles([fileId], f => applyMarks(f, marks)));
+    } catch (err) {
+      reportWriteFailure('Saving the marks', err);
+    }
+  };
+
+  const handleAcceptClassification = async (fileId: string, accepted: Pick<FileClassification, 'category' | 'tags' | 'title'>) => {
+    applyFileChanges(await updateFiles([fileId], f => acceptClassification(f, accepted)));
+  };
+
+  const handleDismissClassification = async (fileId: string) => {
+    applyFileChanges(await updateFiles([fileId], dismissClassification));
+  };
+
+  const handleCreateFolder = async () => {
+    if (!user) return;
+    const folderName = window.prompt('Name the new cell:')?.trim();
+    if (!folderName) return;
+    if (isFolderNameTaken(folders, currentFolderId, folderName)) {
+      alert(`A cell named "${folderName}" already exists here.`);
+      return;
+    }
+    const folder: BeeFolder = {
+      id: Math.random().toString(36).substring(7),
+      name: folderName,
+      parentId: currentFolderId,
+      ownerId: user.id,
+      createdAt: Date.now()
+    };
+    try {
+      await saveFolders([folder]);
+    } catch (err) {
+      return reportWriteFailure('Creating the cell', err);
+    }
+    setFolders(prev => [...prev, folder]);
+  };
+
+  const handleRenameFolder = async (folder: BeeFolder) => {
+    const folderName = window.prompt('Rename cell:', folder.name)?.trim();
+    if (!folderName || folderName === folder.name) return;
+    if (isFolderNameTaken(folders, folder.parentId, folderName, folder.id)) {
+      alert(`A cell named "${folderName}" already exists here.`);
+      return;
+    }
+    const renamed = { ...folder, name: folderName };
+    try {
+      await saveFolders([renamed]);
+    } catch (err) {
+      return reportWriteFailure('Renaming the cell', err);
+    }
+    setFolders(prev => prev.map(f => f.id === folder.id ? renamed : f));
+  };
+
+  const handleDeleteFolder = async (folder: BeeFolder) => {
+    const folderIds = getDescendantFolderIds(folders, folder.id);
+    const nestedFiles = files.filter(f => !isTrashed(f) && f.parentId !== null && folderIds.includes(f.parentId));
+    if (!window.confirm(`Eject "${folder.name}"? Its ${nestedFiles.length} asset(s) will move to the trash.`)) return;
+    let trashed: BeeFile[];
+    try {
+      trashed = await trashFolders(folder.ownerId, folderIds, Date.now());
+    } catch (err) {
+      return reportWriteFailure('Ejecting the cell', err);
     }
+    const trashedIds = new Set(trashed.map(f => f.id));
+    applyFileChanges(trashed);
+    setFolders(prev => prev.filter(f => !folderIds.includes(f.id)));
+    if (selectedFile && trashedIds.has(selectedFile.id)) closePreview();
+    updateLocation(location => (location.folderId !== null && folderIds.includes(location.folderId) ? { folderId: folder.parentId } : {}));
+  };
+
+  const handleFolderDragOver = (e: React.DragEvent, folderId: string) => {
+    if (!e.dataTransfer.types.includes(FILE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOverFolderId(folderId);
+  };
+
+  const handleFolderDrop = (e: React.DragEvent, folderId: string) => {
+    const fileId = e.dataTransfer.getData(FILE_DRAG_TYPE);
+    if (!fileId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOverFolderId(null);
+    handleMoveFile(fileId, folderId);
   };
 
   const handleGlobalDragOver = (e: React.DragEvent) => {
     e.preventDefault();
-    if (user && !globalDrag) setGlobalDrag(true);
+    // Only external file drags open the upload overlay; card drags are moves
+    if (user && !globalDrag && e.dataTransfer.types.includes('Files')) setGlobalDrag(true);
   };
   const handleGlobalDragLeave = (e: React.DragEvent) => {
     e.preventDefault();
@@ -293,32 +839,208 @@ const App: React.FC = () => {
     }
   };
 
+  const folderPath = useMemo(() => getFolderPath(folders, currentFolderId), [folders, currentFolderId]);
+
+  const parsedQuery = useMemo(() => parseQuery(search), [search]);
+  const textTerms = useMemo(() => collectTextTerms(parsedQuery.ast), [parsedQuery]);
+  const contentTerms = useMemo(() => collectTextTerms(parsedQuery.ast, true), [parsedQuery]);
+
+  // Content search hits the index asynchronously, once per free-text term, negated ones
+  // included; name matching stays synchronous below
+  useEffect(() => {
+    if (!user || contentTerms.length === 0) {
+      setContentMatches(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      Promise.all(contentTerms.map(term => searchContent(user.id, term)))
+        .then(results => { if (!cancelled) setContentMatches(new Map(contentTerms.map((term, i) => [term, results[i]]))); })
+        .catch(err => console.error("Content search error:", err));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, contentTerms, files]);
+
+  const getSnippet = (fileId: string) => textTerms.map(term => contentMatches.get(term)?.get(fileId)?.snippet).find(Boolean);
+
   const filteredFiles = useMemo(() => {
+    const { ast } = parsedQuery;
+    const matchesText = (text: string, file: BeeFile) => matchesName(file.name, text) || matchesClassification(file, text) || !!contentMatches.get(text)?.has(file.id);
     let result = files.filter(f => {
-      const matchesSearch = f.name.toLowerCase().includes(search.toLowerCase());
+      if (isTrashed(f) !== (view === 'trash')) return false;
+      const matchesScope = view === 'trash' || searchScope === 'all' || f.parentId === currentFolderId;
+      const matchesSearch = !ast || matchesQuery(ast, f, matchesText);
       const matchesCategory = activeCategory === 'all' || f.category === activeCategory;
-      return matchesSearch && matchesCategory;
+      const matchesMarks = (!starredOnly || f.starred) && (!activeLabel || f.label === activeLabel) && (!activeTag || !!f.tags?.includes(activeTag));
+      return matchesScope && matchesSearch && matchesCategory && matchesMarks;
     });
 
+    const scores = new Map<string, number>(textTerms.length === 0 ? [] : result.map(f => [
+      f.id,
+      textTerms.reduce((acc, term) => acc + relevance(f.name, term, contentMatches.get(term)?.get(f.id)), 0)
+    ]));
     result.sort((a, b) => {
+      // While searching, relevance comes first and the chosen sort breaks ties
+      if (scores.size) {
+        const rank = scores.get(b.id)! - scores.get(a.id)!;
+        if (rank !== 0) return rank;
+      }
       let comp = 0;
       if (sortBy === 'name') comp = a.name.localeCompare(b.name);
       else if (sortBy === 'size') comp = a.size - b.size;
+      else if (sortBy === 'type') comp = a.type.localeCompare(b.type);
       else if (sortBy === 'date') comp = a.lastModified - b.lastModified;
       else if (sortBy === 'category') comp = a.category.localeCompare(b.category);
       return sortOrder === 'asc' ? comp : -comp;
     });
     return result;
-  }, [files, search, activeCategory, sortBy, sortOrder]);
-
-  const storageUsage = useMemo(() => {
-    const total = files.reduce((acc, f) => acc + f.size, 0);
-    const quota = 1024 * 1024 * 1024 * 2;
-    return {
-      total: formatFileSize(total),
-      percent: Math.min((total / quota) * 100, 100).toFixed(1)
-    };
-  }, [files]);
+  }, [files, parsedQuery, textTerms, contentMatches, activeCategory, activeTag, activeLabel, starredOnly, sortBy, sortOrder, searchScope, currentFolderId, view]);
+
+  const visibleFolders = useMemo(() => {
+    // Folders have no type, size or content, so structured queries list files only
+    if (view === 'trash' || activeCategory !== 'all' || !isPlainText(parsedQuery.ast)) return [];
+    if (starredOnly || activeLabel || activeTag) return [];
+    const query = search.trim().toLowerCase();
+    const candidates = searchScope === 'all' && query
+      ? [...folders].sort((a, b) => a.name.localeCompare(b.name))
+      : getChildFolders(folders, currentFolderId);
+    return candidates.filter(f => f.name.toLowerCase().includes(query));
+  }, [folders, search, parsedQuery, activeCategory, activeTag, activeLabel, starredOnly, searchScope, currentFolderId, view]);
+
+  const tagCounts = useMemo(() => countTags(files.filter(f => !isTrashed(f))), [files]);
+  const knownTags = useMemo(() => tagCounts.map(([tag]) => tag), [tagCounts]);
+
+  const filteredIds = useMemo(() => filteredFiles.map(f => f.id), [filteredFiles]);
+  const gridItems = useMemo(() => [
+    ...visibleFolders.map(folder => ({ kind: 'folder' as const, folder })),
+    ...filteredFiles.map(file => ({ kind: 'file' as const, file }))
+  ], [visibleFolders, filteredFiles]);
+  const grid = useVirtualGrid(gridItems.length, { minColumnWidth: GRID_MIN_CARD_WIDTH, maxColumns: 4, gap: GRID_GAP, estimatedRowHeight: 440 });
+  const selection = useSelection(filteredIds);
+  const selectedFiles = useMemo(() => filteredFiles.filter(f => selection.selected.has(f.id)), [filteredFiles, selection.selected]);
+  const selectedTags = useMemo(() => countTags(selectedFiles).map(([tag]) => tag).sort(), [selectedFiles]);
+
+  // Table headers sort on click and flip the order on a second click; sizes and dates start largest and newest first
+  const handleSortColumn = (column: SortBy) => {
+    if (column === sortBy) setSort(column, sortOrder === 'asc' ? 'desc' : 'asc');
+    else setSort(column, column === 'size' || column === 'date' ? 'desc' : 'asc');
+  };
+
+  const handleCardClick = (e: React.MouseEvent, file: BeeFile) => {
+    // Once anything is selected, plain clicks keep selecting instead of opening previews
+    if (e.shiftKey || e.metaKey || e.ctrlKey || selection.selected.size > 0) {
+      selection.select(file.id, { range: e.shiftKey, toggle: e.metaKey || e.ctrlKey });
+    } else {
+      openPreview(file);
+    }
+  };
+
+  const runBulk = async (action: (targets: BeeFile[], report: (progress: ArchiveProgress) => void) => Promise<string>) => {
+    if (!selectedFiles.length || bulkProgress) return;
+    setBulkSummary('');
+    const report = throttledProgress(setBulkProgress);
+    report({ label: 'Working', loaded: 0, total: selectedFiles.length });
+    try {
+      setBulkSummary(await action(selectedFiles, report));
+    } catch (err) {
+      console.error("Bulk action error:", err);
+      alert(`Bulk action stopped: ${err instanceof Error ? err.message : 'unknown error'}. Assets already processed keep their changes.`);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // State follows each saved batch, so a failure halfway leaves the grid matching the database.
+  // change sees each file as stored, which another tab may have changed since it was selected.
+  const updateInBatches = async (targets: BeeFile[], change: (file: BeeFile) => BeeFile, label: string, report: (progress: ArchiveProgress) => void) => {
+    for (let i = 0; i < targets.length; i += BULK_BATCH_SIZE) {
+      const batch = targets.slice(i, i + BULK_BATCH_SIZE);
+      applyFileChanges(await updateFiles(batch.map(f => f.id), change));
+      report({ label, loaded: i + batch.length, total: targets.length });
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (view === 'trash') {
+      if (!window.confirm(`Permanently eject ${selectedFiles.length} asset(s)? This cannot be undone.`)) return;
+      runBulk(async (targets, report) => {
+        for (let i = 0; i < targets.length; i += BULK_BATCH_SIZE) {
+          const batch = targets.slice(i, i + BULK_BATCH_SIZE);
+          const ids = new Set(await deleteFiles(batch, isTrashed));
+          applyFileChanges([], Array.from(ids));
+          setVersions(prev => prev.filter(v => !ids.has(v.fileId)));
+          report({ label: 'Ejecting', loaded: i + batch.length, total: targets.length });
+        }
+        return `Ejected ${targets.length} asset(s) for good.`;
+      });
+      return;
+    }
+    runBulk(async (targets, report) => {
+      const deletedAt = Date.now();
+      await updateInBatches(targets, f => isTrashed(f) ? f : { ...f, deletedAt }, 'Moving to trash', report);
+      return `Moved ${targets.length} asset(s) to the trash.`;
+    });
+  };
+
+  const handleBulkDownload = () => runBulk(async (targets, report) => {
+    const { archive, skipped } = await zipFiles(targets, report);
+    if (skipped.length === targets.length) return `Nothing to download: none of the ${targets.length} asset(s) could be read.`;
+    downloadBlob(archive, `bee-selection-${new Date().toISOString().slice(0, 10)}.zip`);
+    return `Zipped ${targets.length - skipped.length} asset(s)${skipped.length ? `; skipped ${skipped.length} unreadable` : ''}.`;
+  });
+
+  const handleBulkCategory = (category: Exclude<FileCategory, 'all'>) => runBulk(async (targets, report) => {
+    await updateInBatches(targets, f => ({ ...f, category }), 'Recategorizing', report);
+    return `Moved ${targets.length} asset(s) to ${categories.find(c => c.id === category)?.label}.`;
+  });
+
+  const handleBulkAddTag = (input: string) => {
+    const tag = normalizeTag(input);
+    if (!tag) return;
+    runBulk(async (targets, report) => {
+      const untagged = targets.filter(f => !f.tags?.includes(tag));
+      await updateInBatches(untagged, f => applyMarks(f, { tags: addTag(f.tags, tag) }), 'Tagging', report);
+      return `Tagged ${untagged.length} asset(s) #${tag}${untagged.length < targets.length ? `; ${targets.length - untagged.length} already had it` : ''}.`;
+    });
+  };
+
+  const handleBulkRemoveTag = (tag: string) => runBulk(async (targets, report) => {
+    const tagged = targets.filter(f => f.tags?.includes(tag));
+    await updateInBatches(tagged, f => applyMarks(f, { tags: removeTag(f.tags, tag) }), 'Untagging', report);
+    return `Removed #${tag} from ${tagged.length} asset(s).`;
+  });
+
+  const trashCount = useMemo(() => files.filter(isTrashed).length, [files]);
+
+  const getLocationLabel = (folderId: string | null) => {
+    const path = getFolderPath(folders, folderId);
+    return path.length ? path.map(f => f.name).join(' / ') : 'Hive Root';
+  };
+
+  const quota = useMemo(() => computeQuota(getHiveUsage([...files, ...versions]), userQuota, storageEstimate), [files, versions, userQuota, storageEstimate]);
+
+  const handleAdjustQuota = () => {
+    if (!user) return;
+    const input = window.prompt('Hive allotment in GB:', (userQuota / 1024 ** 3).toString());
+    if (input === null) return;
+    const gb = parseFloat(input);
+    if (!Number.isFinite(gb) || gb <= 0) {
+      alert('Allotment must be a positive number of GB.');
+      return;
+    }
+    const bytes = Math.round(gb * 1024 ** 3);
+    setUserQuota(user.id, bytes);
+    setUserQuotaBytes(bytes);
+  };
+
+  const handleRequestPersistence = async () => {
+    const granted = await requestStoragePersistence();
+    setPersisted(granted);
+    if (!granted) alert('The browser declined persistent storage. Your hive may be cleared under storage pressure.');
+  };
 
   const transitionClass = transitioning ? 'opacity-0 scale-98 blur-sm' : 'opacity-100 scale-100 blur-0';
 
@@ -334,7 +1056,8 @@ const App: React.FC = () => {
     { id: 'date', label: 'Recent' },
     { id: 'name', label: 'Name' },
     { id: 'size', label: 'Size' },
-    { id: 'category', label: 'Type' },
+    { id: 'type', label: 'Type' },
+    { id: 'category', label: 'Category' },
   ];
 
   if (loading) {
@@ -397,6 +1120,90 @@ const App: React.FC = () => {
     );
   }
 
+  const renderFolderCard = (folder: BeeFolder) => (
+    <div key={folder.id} onClick={() => openFolder(folder.id)}
+      onDragOver={e => handleFolderDragOver(e, folder.id)} onDragLeave={() => setDragOverFolderId(null)} onDrop={e => handleFolderDrop(e, folder.id)}
+      className={`glass-effect group relative rounded-[3rem] p-6 transition-all hover:-translate-y-2 cursor-pointer bg-white border shadow-sm hover:shadow-xl ${dragOverFolderId === folder.id ? 'border-amber-500 bg-amber-50 scale-[1.02]' : 'border-slate-50 hover:border-amber-500/40'}`}>
+      <div className="aspect-square bg-gradient-to-br from-amber-50 to-yellow-50 rounded-[2.5rem] mb-6 flex items-center justify-center overflow-hidden border border-amber-100 relative group-hover:from-amber-100 transition-all duration-700">
+         <FolderIcon className="w-16 h-16 text-amber-500/70 group-hover:scale-110 transition-transform duration-500" />
+         <div className="absolute bottom-4 left-4 px-4 py-1.5 bg-white/95 backdrop-blur-xl rounded-2xl text-[9px] font-black text-amber-600 border border-amber-100 shadow-sm uppercase tracking-widest">Cell</div>
+      </div>
+      <div className="space-y-2">
+         <h3 className="font-bold text-base truncate pr-4 text-slate-900 group-hover:text-amber-600 transition-colors" title={folder.name}>{folder.name}</h3>
+         <div className="flex justify-between items-center text-[10px] text-slate-400 font-black uppercase tracking-widest">
+            <span>{files.filter(f => f.parentId === folder.id && !isTrashed(f)).length} Assets</span>
+            <span className="bg-slate-50 px-3 py-1.5 rounded-xl border border-slate-100">{new Date(folder.createdAt).toLocaleDateString()}</span>
+         </div>
+      </div>
+      <div className="absolute top-4 right-4 flex flex-col gap-4 opacity-0 translate-x-8 group-hover:opacity-100 group-hover:translate-x-0 transition-all duration-500">
+        <button onClick={e => { e.stopPropagation(); handleDeleteFolder(folder); }} className="p-4 bg-red-50 text-red-400 rounded-2xl hover:bg-red-500 hover:text-white transition-all shadow-xl border border-red-100"><TrashIcon className="w-5 h-5" /></button>
+        <button onClick={e => { e.stopPropagation(); handleRenameFolder(folder); }} className="p-4 bg-white text-slate-400 rounded-2xl hover:text-amber-600 transition-all shadow-xl border border-slate-100"><EditIcon className="w-5 h-5" /></button>
+        <button onClick={e => { e.stopPropagation(); setSharing({ kind: 'folder', target: folder }); }} title="Share" className="p-4 bg-white text-slate-400 rounded-2xl hover:text-amber-600 transition-all shadow-xl border border-slate-100"><ShareIcon className="w-5 h-5" /></button>
+      </div>
+    </div>
+  );
+
+  const renderFileCard = (file: BeeFile) => (
+    <div key={file.id} onClick={e => handleCardClick(e, file)} draggable={view === 'hive'}
+      onDragStart={e => { e.dataTransfer.setData(FILE_DRAG_TYPE, file.id); e.dataTransfer.effectAllowed = 'move'; }}
+      className={`glass-effect group relative rounded-[3rem] p-6 hover:border-amber-500/40 transition-all hover:-translate-y-2 cursor-pointer select-none bg-white border shadow-sm hover:shadow-xl ${selection.selected.has(file.id) ? 'border-amber-500 ring-4 ring-amber-500/20' : 'border-slate-50'}`}>
+      <div className="aspect-square bg-slate-50 rounded-[2.5rem] mb-6 flex items-center justify-center overflow-hidden border border-slate-100 relative group-hover:bg-amber-50/50 transition-all duration-700">
+         <FileThumbnail file={file} keyState={keyState} revision={thumbnailRevision} />
+         <button onClick={e => { e.stopPropagation(); selection.select(file.id, { range: e.shiftKey, toggle: true }); }} title={selection.selected.has(file.id) ? 'Deselect' : 'Select'}
+           className={`absolute top-4 left-4 w-9 h-9 flex items-center justify-center rounded-xl border-2 shadow-sm transition-all ${selection.selected.has(file.id) ? 'bg-amber-600 border-amber-600 text-white' : `bg-white/95 border-slate-200 text-transparent hover:border-amber-400 ${selection.selected.size ? '' : 'opacity-0 group-hover:opacity-100'}`}`}>
+           <CheckIcon className="w-4 h-4" />
+         </button>
+         {view === 'hive' && (
+           <button onClick={e => { e.stopPropagation(); handleChangeMarks(file.id, { starred: !file.starred }); }} title={file.starred ? 'Unstar' : 'Star'}
+             className={`absolute top-4 left-16 p-2.5 rounded-2xl bg-white/95 backdrop-blur-xl border border-amber-100 shadow-sm transition-all ${file.starred ? 'text-amber-500' : 'text-slate-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}>
+             <StarIcon className="w-4 h-4" filled={!!file.starred} />
+           </button>
+         )}
+         <div className="absolute bottom-4 left-4 px-4 py-1.5 bg-white/95 backdrop-blur-xl rounded-2xl text-[9px] font-black text-amber-600 border border-amber-100 shadow-sm uppercase tracking-widest">{file.type.split('/')[1]?.toUpperCase().substring(0, 8) || 'BIN'}</div>
+      </div>
+      <div className="space-y-2">
+         <h3 className="flex items-center gap-2 font-bold text-base pr-4 text-slate-900 group-hover:text-amber-600 transition-colors" title={file.name}>
+           {file.label && <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${LABEL_SWATCHES[file.label]}`}></span>}
+           <span className="truncate">{file.name}</span>
+           {isFlaggedSensitive(file) && <span title="BeeAI flagged this as sensitive"><ShieldIcon className="w-3.5 h-3.5 shrink-0 text-red-500" /></span>}
+         </h3>
+         {file.tags && file.tags.length > 0 && (
+           <div className="flex flex-wrap gap-1.5">
+             {file.tags.map(tag => (
+               <button key={tag} onClick={e => { e.stopPropagation(); setActiveTag(tag); }}
+                 className={`px-2 py-0.5 rounded-lg text-[9px] font-bold border transition-colors ${activeTag === tag ? 'bg-amber-600 text-white border-amber-600' : 'bg-amber-50 text-amber-700 border-amber-100 hover:border-amber-300'}`}>#{tag}</button>
+             ))}
+           </div>
+         )}
+         {view === 'trash' && <p className="text-[9px] font-black text-red-400 uppercase tracking-widest">Purges in {daysUntilPurge(file, retentionDays)} day(s)</p>}
+         {getSnippet(file.id) && (
+           <p className="text-[10px] text-slate-500 leading-relaxed line-clamp-3 break-words">
+             {getSnippet(file.id)!.map((segment, i) => segment.hit
+               ? <mark key={i} className="bg-amber-100 text-amber-700 font-bold rounded px-0.5">{segment.text}</mark>
+               : <span key={i}>{segment.text}</span>)}
+           </p>
+         )}
+         {(searchScope === 'all' || view === 'trash') && <p className="flex items-center gap-1.5 text-[9px] font-black text-amber-600/70 uppercase tracking-widest truncate"><FolderIcon className="w-3 h-3 shrink-0" />{getLocationLabel(file.parentId)}</p>}
+         <div className="flex justify-between items-center text-[10px] text-slate-400 font-black uppercase tracking-widest">
+            <span>{formatFileSize(file.size)}</span>
+            <span className="bg-slate-50 px-3 py-1.5 rounded-xl border border-slate-100">{new Date(file.lastModified).toLocaleDateString()}</span>
+         </div>
+      </div>
+      <div className="absolute top-4 right-4 flex flex-col gap-4 opacity-0 translate-x-8 group-hover:opacity-100 group-hover:translate-x-0 transition-all duration-500">
+        <button onClick={e => { e.stopPropagation(); handleDelete(file.id); }} title={view === 'trash' ? 'Delete forever' : 'Move to trash'} className="p-4 bg-red-50 text-red-400 rounded-2xl hover:bg-red-500 hover:text-white transition-all shadow-xl border border-red-100"><TrashIcon className="w-5 h-5" /></button>
+        {view === 'trash' ? (
+          <button onClick={e => { e.stopPropagation(); handleRestore(file.id); }} title="Restore" className="p-4 bg-amber-500 text-white rounded-2xl hover:bg-amber-600 transition-all shadow-xl"><RestoreIcon className="w-5 h-5" /></button>
+        ) : (
+          <>
+            <button onClick={e => { e.stopPropagation(); openPreview(file); }} className="p-4 bg-amber-500 text-white rounded-2xl hover:bg-amber-600 transition-all shadow-xl"><EyeIcon className="w-5 h-5" /></button>
+            <button onClick={e => { e.stopPropagation(); setMovingFile(file); }} title="Move to…" className="p-4 bg-white text-slate-400 rounded-2xl hover:text-amber-600 transition-all shadow-xl border border-slate-100"><MoveIcon className="w-5 h-5" /></button>
+            <button onClick={e => { e.stopPropagation(); setMarkingFile(file); }} title="Tags & labels" className="p-4 bg-white text-slate-400 rounded-2xl hover:text-amber-600 transition-all shadow-xl border border-slate-100"><TagIcon className="w-5 h-5" /></button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   if (!user) {
     return (
       <div className={`min-h-screen flex flex-col bg-[#fdfdfd] text-slate-900 transition-all duration-500 ${transitionClass}`}>
@@ -429,7 +1236,7 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex flex-wrap gap-8 pt-6 border-t border-slate-100">
                   <div className="flex flex-col">
-                    <span className="text-xl font-black text-slate-900">300 MB</span>
+                    <span className="text-xl font-black text-slate-900">{formatFileSize(getUploadLimit())}</span>
                     <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">File Limit</span>
                   </div>
                   <div className="flex flex-col">
@@ -474,6 +1281,12 @@ const App: React.FC = () => {
                   )}
                   <input type="email" placeholder="Hive Channel (Email)" required value={email} onChange={e => setEmail(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-xl px-6 py-4 focus:outline-none focus:border-amber-500 focus:bg-white transition-all font-bold text-base" />
                   <input type="password" placeholder="Lattice Key (Password)" required value={password} onChange={e => setPassword(e.target.value)} className="w-full bg-slate-50 border border-slate-100 rounded-xl px-6 py-4 focus:outline-none focus:border-amber-500 focus:bg-white transition-all font-bold text-base" />
+                  {authMode === 'signup' && (
+                    <label className="flex items-start gap-3 px-2 py-1 cursor-pointer select-none">
+                      <input type="checkbox" checked={encryptAtRest} onChange={e => setEncryptAtRest(e.target.checked)} className="mt-0.5 w-4 h-4 accent-amber-600" />
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 leading-relaxed">Encrypt files at rest<span className="block normal-case tracking-normal font-medium italic text-slate-300">Unrecoverable if you forget your password.</span></span>
+                    </label>
+                  )}
                   <button type="submit" className="w-full bg-amber-600 text-white font-black py-4 rounded-xl hover:bg-amber-700 transition-all shadow-xl text-lg uppercase tracking-tighter active:scale-95">{authMode === 'login' ? 'Authenticate' : 'Start Swarming'}</button>
                </form>
                <button onClick={() => changeAuthMode(authMode === 'login' ? 'signup' : 'login')} className="w-full mt-8 text-slate-400 font-black text-[10px] uppercase tracking-[0.3em] hover:text-amber-600 transition-colors">{authMode === 'login' ? "New Identity? Initialize Hive →" : "Already Verified? Access Sector →"}</button>
@@ -507,9 +1320,16 @@ const App: React.FC = () => {
         <div className="flex items-center gap-8">
           <div className="flex flex-col items-end hidden sm:flex">
             <span className="text-base font-black text-slate-900 leading-none">{user.name}</span>
-            <span className="text-[9px] font-black text-amber-600 uppercase tracking-[0.2em] mt-1">Lattice Status: Active</span>
+            {isPersistentStorage()
+              ? <span className="text-[9px] font-black text-amber-600 uppercase tracking-[0.2em] mt-1">Lattice Status: Active</span>
+              : <span className="text-[9px] font-black text-red-500 uppercase tracking-[0.2em] mt-1" title="Files live in memory and vanish on reload">Demo Hive: Not Saved</span>}
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={handleOpenShares} className="p-3 bg-slate-50 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all border border-slate-100 shadow-sm" title="Shared by Me"><ShareIcon className="w-5 h-5" /></button>
+            <button onClick={() => setIsArchiveOpen(true)} className="p-3 bg-slate-50 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all border border-slate-100 shadow-sm" title="Hive Archive"><ArchiveIcon className="w-5 h-5" /></button>
+            <button onClick={() => setIsSecurityOpen(true)} className="p-3 bg-slate-50 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all border border-slate-100 shadow-sm" title="Hive Walls"><ShieldIcon className="w-5 h-5" /></button>
+            <button onClick={() => handleLogout()} className="p-3 bg-slate-50 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all border border-slate-100 shadow-sm" title="Leave Sector"><LogoutIcon className="w-5 h-5" /></button>
           </div>
-          <button onClick={handleLogout} className="p-3 bg-slate-50 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all border border-slate-100 shadow-sm" title="Leave Sector"><LogoutIcon className="w-5 h-5" /></button>
         </div>
       </header>
       <main className="flex-1 p-6 lg:p-12 max-w-7xl mx-auto w-full space-y-12">
@@ -517,25 +1337,60 @@ const App: React.FC = () => {
           <div className="space-y-4">
             <h2 className="text-5xl lg:text-7xl font-black text-slate-900 tracking-tighter uppercase leading-[0.9] animate-[slideUp_0.5s_ease-out]">Your<br/><span className="text-amber-600">Honeycomb</span></h2>
             <div className="flex gap-3">
-               <div className="px-4 py-2 bg-amber-50 border border-amber-100 rounded-xl text-[9px] font-black text-amber-600 uppercase tracking-[0.2em]">2.0 GB Allotment</div>
-               <div className="px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black text-slate-400 uppercase tracking-[0.2em]">Encrypted Sync</div>
+               <button onClick={handleAdjustQuota} title="Adjust allotment" className="px-4 py-2 bg-amber-50 border border-amber-100 rounded-xl text-[9px] font-black text-amber-600 uppercase tracking-[0.2em] hover:bg-amber-100 transition-colors">{formatFileSize(userQuota)} Allotment</button>
+               <button onClick={() => setIsSecurityOpen(true)} className={`px-4 py-2 border rounded-xl text-[9px] font-black uppercase tracking-[0.2em] transition-colors ${keyState === 'disabled' ? 'bg-slate-50 border-slate-100 text-slate-400 hover:text-slate-900' : 'bg-green-50 border-green-100 text-green-600'}`}>{keyState === 'disabled' ? 'Unencrypted' : keyState === 'locked' ? 'Encrypted • Sealed' : 'Encrypted At Rest'}</button>
             </div>
           </div>
           <div className="glass-effect p-8 rounded-[3rem] bg-white border-amber-500/10 min-w-[320px] space-y-4 shadow-xl">
             <div className="flex justify-between items-end">
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Hive Utilization</span>
-              <span className="text-2xl font-black text-slate-900">{storageUsage.total}</span>
+              <span className="text-2xl font-black text-slate-900">{formatFileSize(quota.used)}</span>
             </div>
             <div className="w-full h-4 bg-slate-100 rounded-full overflow-hidden p-0.5">
-               <div className="h-full bg-amber-500 rounded-full shadow-lg transition-all duration-1000" style={{ width: `${storageUsage.percent}%` }}></div>
+               <div className={`h-full rounded-full shadow-lg transition-all duration-1000 ${quota.level === 'critical' ? 'bg-red-500' : quota.level === 'warning' ? 'bg-orange-500' : 'bg-amber-500'}`} style={{ width: `${quota.percent}%` }}></div>
             </div>
             <div className="flex justify-between text-[9px] font-black text-slate-400 uppercase tracking-widest px-1">
-              <span>{storageUsage.percent}% Filled</span>
-              <span>2.0 GB Cap</span>
+              <span>{quota.percent.toFixed(1)}% Filled</span>
+              <span title={quota.browserBound ? 'Limited by free space in this browser' : undefined}>{formatFileSize(quota.limit)} Cap{quota.browserBound ? ' (Browser)' : ''}</span>
             </div>
+            <div className="flex justify-between items-center pt-3 border-t border-slate-50 text-[9px] font-black uppercase tracking-widest">
+              <span className="text-slate-300">Storage Mode</span>
+              {persisted === null ? (
+                <span className="text-slate-300">Unsupported</span>
+              ) : persisted ? (
+                <span className="text-green-600">Persistent</span>
+              ) : (
+                <button onClick={handleRequestPersistence} className="text-amber-600 hover:text-amber-700 underline underline-offset-4">Best-Effort • Make Persistent</button>
+              )}
+            </div>
+            <ProcessingStatus />
           </div>
         </div>
-        <UploadArea onUpload={handleUpload} status={uploadStatus} />
+        {quota.level !== 'ok' && (
+          <div className={`flex items-center gap-4 p-6 rounded-[2rem] border animate-[fadeIn_0.5s_ease-out] ${quota.level === 'critical' ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}`}>
+            <div className={`w-10 h-10 shrink-0 rounded-xl flex items-center justify-center text-white font-black shadow-lg ${quota.level === 'critical' ? 'bg-red-500' : 'bg-orange-500'}`}>!</div>
+            <div>
+              <h3 className="text-sm font-black uppercase tracking-tight text-slate-900">{quota.level === 'critical' ? 'Hive Nearly Full' : 'Hive Filling Up'}</h3>
+              <p className={`text-[10px] font-bold italic ${quota.level === 'critical' ? 'text-red-600' : 'text-orange-700'}`}>
+                {quota.percent.toFixed(0)}% of {formatFileSize(quota.limit)} used — {formatFileSize(quota.remaining)} left. {quota.browserBound ? 'This browser is low on space.' : 'Eject unused assets or raise your allotment.'}
+              </p>
+            </div>
+          </div>
+        )}
+        {keyState === 'locked' && (
+          <form onSubmit={handleUnlock} className="flex flex-col md:flex-row items-stretch md:items-center gap-4 p-6 bg-amber-50 border border-amber-200 rounded-[2rem] animate-[fadeIn_0.5s_ease-out]">
+            <div className="flex items-center gap-4 flex-1">
+              <div className="p-3 bg-amber-500 rounded-xl text-white shadow-lg"><LockIcon className="w-5 h-5" /></div>
+              <div>
+                <h3 className="text-sm font-black uppercase tracking-tight text-slate-900">Hive Sealed</h3>
+                <p className="text-[10px] font-bold text-amber-700 italic">{unlockError || 'Your files are encrypted. Enter your password to unlock them for this session.'}</p>
+              </div>
+            </div>
+            <input type="password" placeholder="Lattice Key (Password)" required value={unlockPassword} onChange={e => setUnlockPassword(e.target.value)} className="bg-white border border-amber-100 rounded-xl px-5 py-3 focus:outline-none focus:border-amber-500 transition-all font-bold text-sm md:w-64" />
+            <button type="submit" className="px-6 py-3 bg-amber-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-700 transition-all shadow-lg">Unlock</button>
+          </form>
+        )}
+        <UploadArea onUpload={handleUpload} summary={uploads.summary} maxBytes={getUploadLimit(user.id)} />
         <div className="space-y-10">
            <div className="flex flex-col xl:flex-row items-start xl:items-center justify-between gap-8 border-b-2 border-slate-100 pb-12">
              <div className="flex flex-wrap items-center gap-3">
@@ -549,8 +1404,34 @@ const App: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <div className="flex items-center gap-2 bg-slate-50/50 p-1.5 rounded-[2rem] border border-slate-100">
+                  <button onClick={() => setStarredOnly(!starredOnly)} title="Starred only"
+                    className={`flex items-center gap-2 px-4 py-2.5 rounded-[1.5rem] text-[10px] font-black uppercase tracking-[0.15em] transition-all ${starredOnly ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/30' : 'text-slate-400 hover:text-amber-600 hover:bg-white'}`}>
+                    <StarIcon className="w-3.5 h-3.5" filled={starredOnly} />Starred
+                  </button>
+                  {LABEL_COLORS.map(color => (
+                    <button key={color} onClick={() => setActiveLabel(activeLabel === color ? null : color)} title={`${color} label`}
+                      className={`w-4 h-4 mx-0.5 rounded-full ${LABEL_SWATCHES[color]} transition-all ${activeLabel === color ? 'ring-2 ring-offset-2 ring-slate-400 scale-110' : 'opacity-40 hover:opacity-100'}`} />
+                  ))}
+                  {activeTag && (
+                    <button onClick={() => setActiveTag(null)} title="Clear tag filter"
+                      className="ml-1 flex items-center gap-1.5 px-3 py-2 rounded-[1.5rem] bg-amber-600 text-white text-[10px] font-black tracking-wide">#{activeTag}<span className="opacity-70">×</span></button>
+                  )}
+                </div>
+                <button onClick={() => setView(view === 'trash' ? 'hive' : 'trash')}
+                  className={`flex items-center gap-2.5 px-6 py-4 rounded-[1.5rem] text-[10px] font-black uppercase tracking-[0.15em] transition-all duration-300 border ${view === 'trash' ? 'bg-red-500 text-white border-red-500 shadow-xl shadow-red-500/30' : 'bg-white text-slate-400 border-slate-100 hover:text-red-500 hover:border-red-100'}`}>
+                  <TrashIcon className="w-4 h-4" />Trash{trashCount > 0 && <span className={`px-2 py-0.5 rounded-lg ${view === 'trash' ? 'bg-white/20' : 'bg-red-50 text-red-500'}`}>{trashCount}</span>}
+                </button>
              </div>
              <div className="flex flex-wrap items-center gap-6 w-full xl:w-auto">
+                <div className="flex bg-white p-1 rounded-2xl border border-slate-200 shadow-sm">
+                  {([['grid', 'Grid', GridIcon], ['table', 'Table', ListIcon]] as const).map(([id, label, Icon]) => (
+                    <button key={id} onClick={() => setLayout(id)} title={`${label} view`}
+                      className={`p-2.5 rounded-xl transition-all ${layout === id ? 'bg-amber-50 text-amber-600' : 'text-slate-400 hover:text-slate-900'}`}><Icon className="w-4 h-4" /></button>
+                  ))}
+                </div>
+                <button onClick={selection.selectAll} disabled={filteredFiles.length === 0}
+                  className="px-5 py-3.5 bg-white text-slate-400 border border-slate-200 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:text-amber-600 transition-all shadow-sm disabled:opacity-40 disabled:pointer-events-none">Select All</button>
                 <div className="relative" ref={sortRef}>
                   <div className="flex items-center bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden p-1">
                     <button onClick={() => setIsSortOpen(!isSortOpen)} className="flex items-center gap-3 px-5 py-2.5 hover:bg-slate-50 transition-colors">
@@ -558,59 +1439,80 @@ const App: React.FC = () => {
                       <span className="text-[10px] font-black uppercase text-slate-900 min-w-[70px] text-left">{sortOptions.find(o => o.id === sortBy)?.label}</span>
                       <ChevronDownIcon className={`w-3.5 h-3.5 text-slate-400 transition-transform duration-300 ${isSortOpen ? 'rotate-180' : ''}`} />
                     </button>
-                    <button onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')} className="p-3 hover:bg-amber-50 text-slate-400 hover:text-amber-600 transition-all border-l border-slate-100">
+                    <button onClick={() => setSort(sortBy, sortOrder === 'asc' ? 'desc' : 'asc')} className="p-3 hover:bg-amber-50 text-slate-400 hover:text-amber-600 transition-all border-l border-slate-100">
                       <svg className={`w-4 h-4 transform transition-transform duration-500 ${sortOrder === 'desc' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 15l7-7 7 7" /></svg>
                     </button>
                   </div>
                   {isSortOpen && (
                     <div className="absolute top-full left-0 mt-3 w-48 bg-white rounded-2xl shadow-[0_20px_60px_-10px_rgba(0,0,0,0.15)] border border-slate-100 py-3 z-[100] animate-[fadeIn_0.2s_ease-out] overflow-hidden">
                       {sortOptions.map(option => (
-                        <button key={option.id} onClick={() => { setSortBy(option.id); setIsSortOpen(false); }}
+                        <button key={option.id} onClick={() => { setSort(option.id, sortOrder); setIsSortOpen(false); }}
                           className={`w-full flex items-center justify-between px-5 py-3 text-[10px] font-black uppercase tracking-widest transition-colors ${sortBy === option.id ? 'bg-amber-50 text-amber-600' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}>{option.label}{sortBy === option.id && <div className="w-1.5 h-1.5 bg-amber-500 rounded-full"></div>}</button>
                       ))}
                     </div>
                   )}
                 </div>
-                <div className="relative flex-1 xl:flex-none flex items-center bg-white rounded-2xl border border-slate-200 p-1.5 group focus-within:border-amber-500/40 focus-within:ring-4 focus-within:ring-amber-500/5 transition-all shadow-sm">
-                   <div className="w-10 h-10 flex items-center justify-center text-slate-300 group-focus-within:text-amber-500 transition-colors"><SearchIcon className="w-5 h-5" /></div>
-                   <input type="text" placeholder="Locate asset in swarm..." value={search} onChange={e => setSearch(e.target.value)} 
-                    className="bg-transparent border-none focus:outline-none text-xs font-bold px-2 w-full xl:w-64 placeholder:text-slate-300 placeholder:font-black placeholder:uppercase placeholder:tracking-widest" />
-                   {search && <button onClick={() => setSearch('')} className="p-2 hover:bg-slate-100 rounded-xl text-slate-300 hover:text-slate-900 transition-all"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg></button>}
+                <SearchBox value={search} error={parsedQuery.error} onChange={setSearch} />
+             </div>
+           </div>
+           {view === 'trash' ? (
+           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-6 -mt-4">
+             <div>
+               <h2 className="text-lg font-black uppercase tracking-tight text-slate-900">Trash</h2>
+               <p className="text-[10px] font-black uppercase tracking-[0.15em] text-slate-400">Assets are purged {retentionDays} day(s) after ejection</p>
+             </div>
+             <div className="flex items-center gap-3">
+                <button onClick={handleAdjustRetention} className="px-5 py-2.5 bg-white text-slate-500 border border-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.15em] hover:text-amber-600 transition-all shadow-sm">Retention</button>
+                <button onClick={handleEmptyTrash} disabled={trashCount === 0} className="flex items-center gap-2 px-5 py-2.5 bg-red-50 text-red-500 border border-red-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.15em] hover:bg-red-500 hover:text-white transition-all shadow-sm disabled:opacity-40 disabled:pointer-events-none">
+                  <TrashIcon className="w-4 h-4" />Empty Trash
+                </button>
+             </div>
+           </div>
+           ) : (
+           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-6 -mt-4">
+             <Breadcrumbs path={folderPath} onNavigate={setCurrentFolderId} onDropFile={handleMoveFile} />
+             <div className="flex items-center gap-3">
+                <div className="flex bg-slate-50/50 p-1 rounded-2xl border border-slate-100">
+                  {([['folder', 'This Cell'], ['all', 'Entire Hive']] as [SearchScope, string][]).map(([scope, label]) => (
+                    <button key={scope} onClick={() => setSearchScope(scope)}
+                      className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-[0.15em] transition-all ${searchScope === scope ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-400 hover:text-slate-900'}`}>{label}</button>
+                  ))}
                 </div>
+                <button onClick={handleCreateFolder} className="flex items-center gap-2 px-5 py-2.5 bg-amber-50 text-amber-600 border border-amber-100 rounded-2xl text-[10px] font-black uppercase tracking-[0.15em] hover:bg-amber-600 hover:text-white transition-all shadow-sm">
+                  <FolderPlusIcon className="w-4 h-4" />New Cell
+                </button>
              </div>
            </div>
-           {filteredFiles.length === 0 ? (
+           )}
+           <div className="flex gap-10">
+           {view === 'hive' && tagCounts.length > 0 && <TagSidebar tags={tagCounts} activeTag={activeTag} onSelect={setActiveTag} />}
+           <div className="flex-1 min-w-0">
+           {filteredFiles.length === 0 && visibleFolders.length === 0 ? (
              <div className="flex flex-col items-center justify-center py-48 text-center glass-effect rounded-[4rem] border-2 border-dashed border-slate-100 bg-white/50 space-y-8 animate-[fadeIn_1s_ease-out]">
                 <div className="w-32 h-32 bg-slate-50 rounded-[3rem] flex items-center justify-center text-slate-100 shadow-inner group-hover:scale-105 transition-transform"><HexagonIcon className="w-16 h-16" /></div>
                 <div>
-                  <h3 className="text-3xl font-black text-slate-300 uppercase tracking-tighter">Sector Vacant</h3>
-                  <p className="text-slate-400 text-xs mt-3 uppercase tracking-[0.2em] font-bold italic">Pollinate your vault with assets.</p>
+                  <h3 className="text-3xl font-black text-slate-300 uppercase tracking-tighter">{view === 'trash' ? 'Trash Empty' : 'Sector Vacant'}</h3>
+                  <p className="text-slate-400 text-xs mt-3 uppercase tracking-[0.2em] font-bold italic">{view === 'trash' ? 'Ejected assets wait here before purging.' : 'Pollinate your vault with assets.'}</p>
                 </div>
-                <button onClick={() => window.scrollTo({ top: 300, behavior: 'smooth' })} className="px-8 py-3 bg-amber-100 text-amber-600 rounded-xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-amber-600 hover:text-white transition-all shadow-lg">Upload Now</button>
+                {view === 'hive' && <button onClick={() => window.scrollTo({ top: 300, behavior: 'smooth' })} className="px-8 py-3 bg-amber-100 text-amber-600 rounded-xl text-[10px] font-black uppercase tracking-[0.3em] hover:bg-amber-600 hover:text-white transition-all shadow-lg">Upload Now</button>}
              </div>
+           ) : layout === 'table' ? (
+             <FileTable folders={visibleFolders} files={filteredFiles} view={view} sortBy={sortBy} sortOrder={sortOrder} selected={selection.selected}
+               retentionDays={retentionDays} showLocation={searchScope === 'all' || view === 'trash'} getLocationLabel={getLocationLabel}
+               onSort={handleSortColumn} onRowClick={handleCardClick} onToggleSelect={(e, file) => selection.select(file.id, { range: e.shiftKey, toggle: true })}
+               onOpen={openPreview} onOpenFolder={folder => openFolder(folder.id)}
+               onStar={file => handleChangeMarks(file.id, { starred: !file.starred })} onDelete={handleDelete} onRestore={handleRestore} onDropFile={handleMoveFile} />
            ) : (
-             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-                {filteredFiles.map(file => (
-                  <div key={file.id} onClick={() => setSelectedFile(file)} className="glass-effect group relative rounded-[3rem] p-6 hover:border-amber-500/40 transition-all hover:-translate-y-2 cursor-pointer bg-white border border-slate-50 shadow-sm hover:shadow-xl">
-                    <div className="aspect-square bg-slate-50 rounded-[2.5rem] mb-6 flex items-center justify-center overflow-hidden border border-slate-100 relative group-hover:bg-amber-50/50 transition-all duration-700">
-                       <FileThumbnail file={file} />
-                       <div className="absolute bottom-4 left-4 px-4 py-1.5 bg-white/95 backdrop-blur-xl rounded-2xl text-[9px] font-black text-amber-600 border border-amber-100 shadow-sm uppercase tracking-widest">{file.type.split('/')[1]?.toUpperCase().substring(0, 8) || 'BIN'}</div>
-                    </div>
-                    <div className="space-y-2">
-                       <h3 className="font-bold text-base truncate pr-4 text-slate-900 group-hover:text-amber-600 transition-colors" title={file.name}>{file.name}</h3>
-                       <div className="flex justify-between items-center text-[10px] text-slate-400 font-black uppercase tracking-widest">
-                          <span>{formatFileSize(file.size)}</span>
-                          <span className="bg-slate-50 px-3 py-1.5 rounded-xl border border-slate-100">{new Date(file.lastModified).toLocaleDateString()}</span>
-                       </div>
-                    </div>
-                    <div className="absolute top-4 right-4 flex flex-col gap-4 opacity-0 translate-x-8 group-hover:opacity-100 group-hover:translate-x-0 transition-all duration-500">
-                      <button onClick={e => { e.stopPropagation(); handleDelete(file.id); }} className="p-4 bg-red-50 text-red-400 rounded-2xl hover:bg-red-500 hover:text-white transition-all shadow-xl border border-red-100"><TrashIcon className="w-5 h-5" /></button>
-                      <button onClick={e => { e.stopPropagation(); setSelectedFile(file); }} className="p-4 bg-amber-500 text-white rounded-2xl hover:bg-amber-600 transition-all shadow-xl"><EyeIcon className="w-5 h-5" /></button>
-                    </div>
+             <div ref={grid.setContainer} className="flex flex-col gap-8" style={{ paddingTop: grid.padTop, paddingBottom: grid.padBottom }}>
+                {grid.rows.map(row => (
+                  <div key={row.index} data-row={row.index} ref={grid.observeRow} className="grid gap-8" style={{ gridTemplateColumns: `repeat(${grid.columns}, minmax(0, 1fr))` }}>
+                    {gridItems.slice(row.start, row.end).map(item => item.kind === 'folder' ? renderFolderCard(item.folder) : renderFileCard(item.file))}
                   </div>
                 ))}
              </div>
            )}
+           </div>
+           </div>
         </div>
       </main>
       <footer className="p-16 border-t border-slate-100 bg-slate-50/50 text-center space-y-8">
@@ -619,7 +1521,25 @@ const App: React.FC = () => {
             <span className="text-xs font-black text-slate-300 uppercase tracking-[0.6em]">Bee Store Hive Protocol v2.6.5</span>
          </div>
       </footer>
-      {selectedFile && <PreviewModal file={selectedFile} onClose={() => setSelectedFile(null)} onDelete={handleDelete} />}
+      {selectedFile && (
+        <PreviewModal file={selectedFile} versions={versions.filter(v => v.fileId === selectedFile.id)} versionLimit={versionLimit}
+          onClose={closePreview} onDelete={handleDelete}
+          onRestoreVersion={handleRestoreVersion} onDeleteVersion={handleDeleteVersion} onAdjustVersionLimit={handleAdjustVersionLimit}
+          knownTags={knownTags} onChangeMarks={handleChangeMarks}
+          onAcceptClassification={handleAcceptClassification} onDismissClassification={handleDismissClassification} onClassify={file => classifyStoredFile(file, undefined, { fresh: !!getClassification(file) })}
+          onShare={file => setSharing({ kind: 'file', target: file })} />
+      )}
+      <BulkActionBar count={selectedFiles.length} visibleCount={filteredFiles.length} view={view} knownTags={knownTags} selectedTags={selectedTags}
+        progress={bulkProgress} summary={bulkSummary} onSelectAll={selection.selectAll} onClear={selection.clear}
+        onDelete={handleBulkDelete} onDownload={handleBulkDownload} onSetCategory={handleBulkCategory}
+        onAddTag={handleBulkAddTag} onRemoveTag={handleBulkRemoveTag} onDismissSummary={() => setBulkSummary('')} />
+      <UploadTray items={uploads.items} summary={uploads.summary} onCancel={uploads.cancel} onRetry={uploads.retry} onDismiss={uploads.dismiss} onClearFinished={uploads.clearFinished} />
+      {sharing && <ShareDialog name={sharing.target.name} kind={sharing.kind} onCreate={handleCreateShare} onClose={() => setSharing(null)} />}
+      {isSharesOpen && <SharesPanel shares={shares} onRevoke={handleRevokeShare} onClose={() => setIsSharesOpen(false)} />}
+      {isArchiveOpen && <ArchivePanel progress={archiveProgress} onExport={handleExportHive} onImport={handleImportHive} onClose={() => setIsArchiveOpen(false)} />}
+      {isSecurityOpen && <SecurityPanel keyState={keyState} encryptProgress={encryptProgress} onEnableEncryption={handleEnableEncryption} onLock={handleLock} onChangePassword={handleChangePassword} onClose={() => setIsSecurityOpen(false)} />}
+      {markingFile && <MarksDialog file={markingFile} knownTags={knownTags} onChange={handleChangeMarks} onClose={() => setMarkingFile(null)} />}
+      {movingFile && <MoveDialog file={movingFile} folders={folders} onMove={handleMoveFile} onClose={() => setMovingFile(null)} />}
     </div>
   );
 };
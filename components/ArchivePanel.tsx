@@ -0,0 +1,107 @@
+
+import React, { useState } from 'react';
+import { ArchiveImportMode, ArchiveProgress } from '../types';
+import { formatFileSize } from '../services/storageService';
+import { ArchiveIcon, CloseIcon, DownloadIcon } from './Icons';
+
+interface ArchivePanelProps {
+  progress: ArchiveProgress | null;
+  onExport: () => Promise<void>;
+  onImport: (archive: File, mode: ArchiveImportMode) => Promise<string>; // Resolves a summary of what was added
+  onClose: () => void;
+}
+
+const modeLabels: Record<ArchiveImportMode, [string, string]> = {
+  merge: ['Merge', 'Add accounts, cells and files that are not here yet. Nothing existing is changed.'],
+  replace: ['Replace', 'Discard every account, cell and file in this browser and load the archive instead.'],
+};
+
+const ArchivePanel: React.FC<ArchivePanelProps> = ({ progress, onExport, onImport, onClose }) => {
+  const [archive, setArchive] = useState<File | null>(null);
+  const [mode, setMode] = useState<ArchiveImportMode>('merge');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<string>) => {
+    setError('');
+    setNotice('');
+    setBusy(true);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Archive operation failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!archive) return;
+    if (mode === 'replace' && !window.confirm('Replace the entire hive in this browser with the archive? This cannot be undone.')) return;
+    run(() => onImport(archive, mode));
+  };
+
+  const percent = progress && progress.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={busy ? undefined : onClose}>
+      <div className="w-full max-w-md bg-white rounded-[2.5rem] overflow-hidden border border-amber-500/20 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><ArchiveIcon className="w-5 h-5" /></div>
+            <div>
+              <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Hive Archive</h3>
+              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase">Backup • Move • Restore</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={busy} className="p-2.5 bg-slate-50 rounded-xl text-slate-400 hover:text-slate-900 transition-all border border-slate-100 disabled:opacity-50"><CloseIcon className="w-4 h-4" /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && <div className="p-4 bg-red-50 text-red-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-red-100">{error}</div>}
+          {notice && <div className="p-4 bg-green-50 text-green-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-green-100">{notice}</div>}
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-amber-600">
+                <span>{progress.label}</span>
+                <span>{formatFileSize(progress.loaded)} / {formatFileSize(progress.total)}</span>
+              </div>
+              <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-500 rounded-full transition-all duration-200" style={{ width: `${percent}%` }}></div>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Export Hive</h4>
+            <p className="text-xs text-slate-500 leading-relaxed">Downloads one ZIP with a manifest and every stored file, for every account in this browser. Encrypted files stay encrypted inside it.</p>
+            <button onClick={() => run(async () => { await onExport(); return 'Archive ready. Check your downloads.'; })} disabled={busy} className="w-full flex items-center justify-center gap-2 bg-amber-600 text-white font-black py-3 rounded-xl hover:bg-amber-700 transition-all uppercase tracking-widest text-[10px] disabled:opacity-50">
+              <DownloadIcon className="w-3.5 h-3.5" />Export Hive
+            </button>
+          </div>
+
+          <form onSubmit={handleImport} className="space-y-3 pt-6 border-t border-slate-100">
+            <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Import Hive</h4>
+            <input type="file" accept=".zip,application/zip" required onChange={e => setArchive(e.target.files?.[0] || null)}
+              className="w-full text-xs font-bold text-slate-500 file:mr-4 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-amber-50 file:text-amber-600 file:font-black file:uppercase file:text-[9px] file:tracking-widest" />
+            <div className="space-y-2">
+              {(Object.keys(modeLabels) as ArchiveImportMode[]).map(option => (
+                <label key={option} className={`flex gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${mode === option ? 'border-amber-500 bg-amber-50' : 'border-slate-100 hover:bg-slate-50'}`}>
+                  <input type="radio" name="import-mode" checked={mode === option} onChange={() => setMode(option)} className="mt-0.5 accent-amber-600" />
+                  <span>
+                    <span className="block text-[10px] font-black uppercase tracking-widest text-slate-900">{modeLabels[option][0]}</span>
+                    <span className="block text-[10px] text-slate-500 leading-relaxed">{modeLabels[option][1]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button type="submit" disabled={busy || !archive} className="w-full bg-white text-slate-900 font-black py-3 rounded-xl hover:bg-slate-50 transition-all border-2 border-slate-100 uppercase tracking-widest text-[10px] disabled:opacity-50">Import Archive</button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchivePanel;
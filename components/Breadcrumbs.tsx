@@ -0,0 +1,59 @@
+
+import React, { useState } from 'react';
+import { BeeFolder } from '../types';
+import { FILE_DRAG_TYPE } from '../services/folderService';
+import { HexagonIcon, ChevronRightIcon } from './Icons';
+
+interface BreadcrumbsProps {
+  path: BeeFolder[];
+  onNavigate: (folderId: string | null) => void;
+  onDropFile: (fileId: string, folderId: string | null) => void;
+}
+
+const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ path, onNavigate, onDropFile }) => {
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+
+  const crumbs: { id: string | null, name: string }[] = [{ id: null, name: 'Hive Root' }, ...path];
+
+  const handleDragOver = (e: React.DragEvent, id: string | null) => {
+    if (!e.dataTransfer.types.includes(FILE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(id);
+  };
+
+  const handleDrop = (e: React.DragEvent, id: string | null) => {
+    const fileId = e.dataTransfer.getData(FILE_DRAG_TYPE);
+    if (!fileId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(undefined);
+    onDropFile(fileId, id);
+  };
+
+  return (
+    <nav className="flex flex-wrap items-center gap-1.5">
+      {crumbs.map((crumb, i) => {
+        const isLast = i === crumbs.length - 1;
+        return (
+          <React.Fragment key={crumb.id ?? 'root'}>
+            {i > 0 && <ChevronRightIcon className="w-3.5 h-3.5 text-slate-300" />}
+            <button
+              onClick={() => onNavigate(crumb.id)}
+              onDragOver={e => handleDragOver(e, crumb.id)}
+              onDragLeave={() => setDropTarget(undefined)}
+              onDrop={e => handleDrop(e, crumb.id)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-[0.15em] transition-all border
+                ${dropTarget === crumb.id ? 'bg-amber-100 border-amber-400 text-amber-700 scale-105' : isLast ? 'bg-amber-50 border-amber-100 text-amber-600' : 'bg-white border-slate-100 text-slate-400 hover:text-slate-900 hover:border-slate-200'}`}
+            >
+              {crumb.id === null && <HexagonIcon className="w-3.5 h-3.5" />}
+              <span className="max-w-[160px] truncate" title={crumb.name}>{crumb.name}</span>
+            </button>
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+};
+
+export default Breadcrumbs;
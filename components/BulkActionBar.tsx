@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ArchiveProgress, FileCategory, HiveView } from '../types';
+import { CloseIcon, DownloadIcon, TagIcon, TrashIcon } from './Icons';
+
+interface BulkActionBarProps {
+  count: number;
+  visibleCount: number;
+  view: HiveView;
+  knownTags: string[];
+  selectedTags: string[]; // Tags carried by at least one selected file
+  progress: ArchiveProgress | null;
+  summary: string;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onDownload: () => void;
+  onSetCategory: (category: Exclude<FileCategory, 'all'>) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onDismissSummary: () => void;
+}
+
+const categoryOptions: [Exclude<FileCategory, 'all'>, string][] = [
+  ['images', 'Images'], ['videos', 'Videos'], ['documents', 'Docs'], ['others', 'Misc']
+];
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, visibleCount, view, knownTags, selectedTags, progress, summary, onSelectAll, onClear, onDelete, onDownload, onSetCategory, onAddTag, onRemoveTag, onDismissSummary }) => {
+  const [tagDraft, setTagDraft] = useState('');
+
+  if (count === 0 && !progress && !summary) return null;
+
+  const busy = !!progress;
+  const percent = progress && progress.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+  const selectClass = 'bg-slate-50 border border-slate-100 rounded-xl px-3 py-2.5 text-[9px] font-black uppercase tracking-widest text-slate-500 focus:outline-none focus:border-amber-500/40 disabled:opacity-50';
+  const buttonClass = 'flex items-center gap-2 px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-50 disabled:pointer-events-none';
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagDraft.trim()) return;
+    onAddTag(tagDraft);
+    setTagDraft('');
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[56] w-[min(960px,calc(100vw-3rem))] bg-white rounded-[2rem] border border-amber-500/20 shadow-[0_30px_80px_-20px_rgba(0,0,0,0.35)] px-6 py-4 space-y-3 animate-[slideUp_0.4s_ease-out]">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-3 pr-3 border-r border-slate-100">
+            <span className="text-xs font-black uppercase tracking-[0.15em] text-slate-900">{count} selected</span>
+            {count < visibleCount && <button onClick={onSelectAll} disabled={busy} className="text-[9px] font-black uppercase tracking-widest text-amber-600 hover:text-amber-700 disabled:opacity-50">Select all {visibleCount}</button>}
+          </div>
+          <button onClick={onDelete} disabled={busy} className={`${buttonClass} bg-red-50 text-red-500 border border-red-100 hover:bg-red-500 hover:text-white`}>
+            <TrashIcon className="w-3.5 h-3.5" />{view === 'trash' ? 'Delete Forever' : 'Trash'}
+          </button>
+          <button onClick={onDownload} disabled={busy} className={`${buttonClass} bg-amber-600 text-white hover:bg-amber-700`}>
+            <DownloadIcon className="w-3.5 h-3.5" />Download ZIP
+          </button>
+          {view === 'hive' && (
+            <>
+              <select value="" disabled={busy} onChange={e => e.target.value && onSetCategory(e.target.value as Exclude<FileCategory, 'all'>)} className={selectClass}>
+                <option value="">Set category…</option>
+                {categoryOptions.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+              </select>
+              <form onSubmit={handleAddTag} className="flex items-center gap-1.5">
+                <input value={tagDraft} onChange={e => setTagDraft(e.target.value)} list="bulk-known-tags" placeholder="Add tag…" disabled={busy}
+                  className="w-28 bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-amber-500/40 placeholder:text-slate-300" />
+                <datalist id="bulk-known-tags">{knownTags.map(tag => <option key={tag} value={tag} />)}</datalist>
+                <button type="submit" disabled={busy || !tagDraft.trim()} className={`${buttonClass} bg-amber-50 text-amber-600 border border-amber-100 hover:bg-amber-600 hover:text-white`}><TagIcon className="w-3.5 h-3.5" />Tag</button>
+              </form>
+              {selectedTags.length > 0 && (
+                <select value="" disabled={busy} onChange={e => e.target.value && onRemoveTag(e.target.value)} className={selectClass}>
+                  <option value="">Remove tag…</option>
+                  {selectedTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+              )}
+            </>
+          )}
+          <button onClick={onClear} disabled={busy} title="Clear selection" className="ml-auto p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50"><CloseIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+      {progress && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-amber-600">
+            <span>{progress.label}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-500 rounded-full transition-all duration-200" style={{ width: `${percent}%` }}></div>
+          </div>
+        </div>
+      )}
+      {summary && !progress && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[10px] font-black uppercase tracking-widest text-green-600">{summary}</p>
+          <button onClick={onDismissSummary} className="p-1.5 text-slate-300 hover:text-slate-900 rounded-lg transition-colors"><CloseIcon className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
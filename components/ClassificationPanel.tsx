@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { BeeFile, FileClassification } from '../types';
+import { canClassify, getClassification } from '../services/classificationService';
+import { isAiAvailable, isStubSuggestion } from '../services/aiService';
+import { AiUnavailableError } from '../services/aiProvider';
+import { removeTag } from '../services/tagService';
+import { BeeIcon, ShieldIcon } from './Icons';
+
+type Accepted = Pick<FileClassification, 'category' | 'tags' | 'title'>;
+
+interface ClassificationPanelProps {
+  file: BeeFile;
+  onAccept: (fileId: string, accepted: Accepted) => Promise<void>;
+  onDismiss: (fileId: string) => Promise<void>;
+  onClassify: (file: BeeFile) => Promise<void>;
+}
+
+const CATEGORY_OPTIONS: FileClassification['category'][] = ['images', 'videos', 'documents', 'others'];
+
+const STATUS_LABELS: Record<FileClassification['status'], string> = {
+  suggested: 'Suggested',
+  accepted: 'Accepted',
+  dismissed: 'Dismissed',
+};
+
+const ClassificationPanel: React.FC<ClassificationPanelProps> = ({ file, onAccept, onDismiss, onClassify }) => {
+  const classification = getClassification(file);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Accepted | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<{ message: string; unavailable: boolean } | null>(null);
+
+  // A fresh suggestion, or another file, starts over from what BeeAI said
+  useEffect(() => {
+    setEditing(false);
+    setError(null);
+    setDraft(classification ? { category: classification.category, tags: classification.tags, title: classification.title } : null);
+  }, [file.id, classification?.classifiedAt]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(false);
+    } catch (err) {
+      // BeeAI having no answer is not the same as the file being unreadable
+      if (err instanceof AiUnavailableError) {
+        setError({ message: `BeeAI is unavailable: ${err.message}`, unavailable: true });
+      } else {
+        console.error("Classification failed:", err);
+        setError({ message: "The bees couldn't finish that. Try again later.", unavailable: false });
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unavailableReason = !isAiAvailable() ? 'BeeAI is not configured for this hive.'
+    : !canClassify(file) ? 'Encrypted assets are never sent to BeeAI.' : null;
+
+  return (
+    <div className="bg-white border border-amber-500/10 p-6 rounded-[2rem] relative overflow-hidden flex-1 shadow-sm flex flex-col group hover:border-amber-500/30 transition-all min-h-[250px] lg:min-h-0">
+      <div className="flex items-center justify-between gap-2.5 mb-4 shrink-0">
+        <span className="bg-amber-100 text-amber-600 text-[8px] font-black px-3 py-1.5 rounded-full uppercase tracking-widest border border-amber-200 flex items-center gap-2">
+          {busy && <span className="w-1 h-1 bg-amber-500 rounded-full animate-ping"></span>}
+          BeeAI Classification
+        </span>
+        {classification && (
+          <span className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-slate-400">
+            {isStubSuggestion(classification) && <span className="px-2 py-1 rounded-full bg-slate-100 text-slate-500 border border-slate-200" title="Made up locally from the name and type; not a real reading">Offline Stub</span>}
+            {STATUS_LABELS[classification.status]}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-3">
+        {!classification || !draft ? (
+          <p className="text-sm leading-relaxed text-slate-400 font-light italic">
+            {unavailableReason || (busy ? 'Reading the asset lattice...' : 'Not classified yet. New uploads are read in the background.')}
+          </p>
+        ) : editing ? (
+          <>
+            <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} placeholder="Title"
+              className="w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-xs font-bold focus:outline-none focus:border-amber-500/40" />
+            <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value as Accepted['category'] })}
+              className="w-full bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-600 focus:outline-none focus:border-amber-500/40">
+              {CATEGORY_OPTIONS.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+            <div className="flex flex-wrap gap-1.5">
+              {draft.tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-1 bg-white border border-amber-100 text-amber-700 rounded-lg text-[10px] font-bold">
+                  #{tag}
+                  <button onClick={() => setDraft({ ...draft, tags: removeTag(draft.tags, tag) })} title="Drop tag" className="px-1 text-slate-300 hover:text-red-500">×</button>
+                </span>
+              ))}
+            </div>
+          </>
+        ) : (
+          <>
+            <h4 className="text-sm font-black text-slate-900 leading-snug">{classification.title || file.name}</h4>
+            <p className="text-sm leading-relaxed text-slate-600 font-light italic">"{classification.description}"</p>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-slate-50 text-slate-500 border border-slate-100">{classification.category}</span>
+              {classification.sensitive && (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-red-50 text-red-600 border border-red-100">
+                  <ShieldIcon className="w-3 h-3" />Sensitive
+                </span>
+              )}
+              {classification.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 rounded-lg text-[9px] font-bold bg-amber-50 text-amber-700 border border-amber-100">#{tag}</span>
+              ))}
+            </div>
+          </>
+        )}
+        {error && <p className={`text-[10px] font-bold ${error.unavailable ? 'text-amber-600' : 'text-red-500'}`}>{error.message}</p>}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-50 flex items-center justify-between gap-2 shrink-0">
+        {classification && draft && (classification.status === 'suggested' || editing) ? (
+          <div className="flex items-center gap-2">
+            <button onClick={() => run(() => onAccept(file.id, draft))} disabled={busy}
+              className="px-3 py-2 bg-amber-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-amber-700 transition-all disabled:opacity-50">Accept</button>
+            {!editing && (
+              <button onClick={() => setEditing(true)} disabled={busy}
+                className="px-3 py-2 bg-slate-50 text-slate-500 rounded-xl text-[9px] font-black uppercase tracking-widest border border-slate-100 hover:text-amber-600 transition-all disabled:opacity-50">Edit</button>
+            )}
+            <button onClick={() => (editing ? setEditing(false) : run(() => onDismiss(file.id)))} disabled={busy}
+              className="px-3 py-2 text-slate-400 rounded-xl text-[9px] font-black uppercase tracking-widest hover:text-red-500 transition-all disabled:opacity-50">{editing ? 'Cancel' : 'Dismiss'}</button>
+          </div>
+        ) : !unavailableReason ? (
+          <button onClick={() => run(() => onClassify(file))} disabled={busy}
+            className="px-3 py-2 bg-slate-50 text-slate-500 rounded-xl text-[9px] font-black uppercase tracking-widest border border-slate-100 hover:bg-amber-50 hover:text-amber-600 transition-all disabled:opacity-50">
+            {busy ? 'Classifying...' : classification ? 'Classify Again' : 'Classify Now'}
+          </button>
+        ) : <span />}
+        <BeeIcon className="w-5 h-5 text-amber-500 opacity-20" />
+      </div>
+    </div>
+  );
+};
+
+export default ClassificationPanel;
@@ -0,0 +1,86 @@
+
+import React, { useState } from 'react';
+import { BeeFile, FileMarks, LabelColor } from '../types';
+import { LABEL_COLORS, addTag, removeTag, suggestTags } from '../services/tagService';
+import { StarIcon } from './Icons';
+
+// Tailwind needs the full class names spelled out to keep them in the build
+export const LABEL_SWATCHES: Record<LabelColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+};
+
+interface FileMarksEditorProps {
+  file: BeeFile;
+  knownTags: string[]; // Every tag in the hive, for autocomplete
+  onChange: (fileId: string, marks: FileMarks) => void;
+}
+
+const FileMarksEditor: React.FC<FileMarksEditorProps> = ({ file, knownTags, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [focused, setFocused] = useState(false);
+  const tags = file.tags || [];
+  const suggestions = focused ? suggestTags(knownTags, draft, tags) : [];
+
+  const commit = (tag: string) => {
+    const next = addTag(tags, tag);
+    if (next !== tags) onChange(file.id, { tags: next });
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && draft.trim()) {
+      e.preventDefault();
+      commit(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length) {
+      onChange(file.id, { tags: tags.slice(0, -1) });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button onClick={() => onChange(file.id, { starred: !file.starred })}
+          className={`flex items-center gap-2 px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${file.starred ? 'bg-amber-50 text-amber-600 border-amber-200' : 'bg-slate-50 text-slate-400 border-slate-100 hover:text-amber-600'}`}>
+          <StarIcon className="w-3.5 h-3.5" filled={!!file.starred} />{file.starred ? 'Starred' : 'Star'}
+        </button>
+        <div className="flex items-center gap-1.5">
+          {LABEL_COLORS.map(color => (
+            <button key={color} title={file.label === color ? 'Remove label' : `Label ${color}`}
+              onClick={() => onChange(file.id, { label: file.label === color ? undefined : color })}
+              className={`w-4 h-4 rounded-full ${LABEL_SWATCHES[color]} transition-all ${file.label === color ? 'ring-2 ring-offset-2 ring-slate-400 scale-110' : 'opacity-40 hover:opacity-100'}`} />
+          ))}
+        </div>
+      </div>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1.5 p-2 bg-slate-50 rounded-xl border border-slate-100 focus-within:border-amber-500/40">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-1 bg-white border border-amber-100 text-amber-700 rounded-lg text-[10px] font-bold">
+              #{tag}
+              <button onClick={() => onChange(file.id, { tags: removeTag(tags, tag) })} title="Remove tag" className="px-1 text-slate-300 hover:text-red-500">×</button>
+            </span>
+          ))}
+          <input value={draft} onChange={e => setDraft(e.target.value)} onKeyDown={handleKeyDown}
+            onFocus={() => setFocused(true)} onBlur={() => { setFocused(false); if (draft.trim()) commit(draft); }}
+            placeholder={tags.length ? 'Add tag…' : 'Add tags…'}
+            className="flex-1 min-w-[80px] bg-transparent text-xs font-bold px-1 py-1 focus:outline-none placeholder:text-slate-300" />
+        </div>
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 mt-1 bg-white border border-slate-100 rounded-xl shadow-xl z-10 py-1 max-h-40 overflow-y-auto">
+            {suggestions.map(tag => (
+              // mousedown runs before the input's blur, which would otherwise commit the draft instead
+              <button key={tag} onMouseDown={e => { e.preventDefault(); commit(tag); }}
+                className="w-full text-left px-4 py-2 text-[10px] font-bold text-slate-600 hover:bg-amber-50 hover:text-amber-600">#{tag}</button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileMarksEditor;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { BeeFile, BeeFolder, HiveView, SortBy, SortOrder } from '../types';
+import { formatFileSize } from '../services/storageService';
+import { FILE_DRAG_TYPE } from '../services/folderService';
+import { daysUntilPurge } from '../services/trashService';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
+import { LABEL_SWATCHES } from './FileMarksEditor';
+import { CheckIcon, EyeIcon, FolderIcon, RestoreIcon, StarIcon, TrashIcon } from './Icons';
+
+interface FileTableProps {
+  folders: BeeFolder[];
+  files: BeeFile[];
+  view: HiveView;
+  sortBy: SortBy;
+  sortOrder: SortOrder;
+  selected: Set<string>;
+  retentionDays: number;
+  showLocation: boolean;
+  getLocationLabel: (folderId: string | null) => string;
+  onSort: (column: SortBy) => void;
+  onRowClick: (e: React.MouseEvent, file: BeeFile) => void;
+  onToggleSelect: (e: React.MouseEvent, file: BeeFile) => void;
+  onOpen: (file: BeeFile) => void;
+  onOpenFolder: (folder: BeeFolder) => void;
+  onStar: (file: BeeFile) => void;
+  onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
+  onDropFile: (fileId: string, folderId: string) => void;
+}
+
+type TableItem = { kind: 'folder'; folder: BeeFolder } | { kind: 'file'; file: BeeFile };
+
+const columns: [SortBy, string][] = [
+  ['name', 'Name'], ['size', 'Size'], ['type', 'Type'], ['date', 'Modified'], ['category', 'Category']
+];
+
+const ROW_HEIGHT = 60;
+const GRID_TEMPLATE = '3rem minmax(0, 1fr) 6rem 10rem 7rem 7rem 6rem';
+
+const FileTable: React.FC<FileTableProps> = ({ folders, files, view, sortBy, sortOrder, selected, retentionDays, showLocation, getLocationLabel, onSort, onRowClick, onToggleSelect, onOpen, onOpenFolder, onStar, onDelete, onRestore, onDropFile }) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const items: TableItem[] = [
+    ...folders.map(folder => ({ kind: 'folder' as const, folder })),
+    ...files.map(file => ({ kind: 'file' as const, file }))
+  ];
+  const grid = useVirtualGrid(items.length, { minColumnWidth: 1, maxColumns: 1, gap: 0, estimatedRowHeight: ROW_HEIGHT, overscan: 8 });
+  const cellClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400 truncate';
+
+  const handleDragOver = (e: React.DragEvent, folderId: string) => {
+    if (!e.dataTransfer.types.includes(FILE_DRAG_TYPE)) return;
+    e.preventDefault();
+    setDropTarget(folderId);
+  };
+
+  const handleDrop = (e: React.DragEvent, folderId: string) => {
+    const fileId = e.dataTransfer.getData(FILE_DRAG_TYPE);
+    if (!fileId) return;
+    e.preventDefault();
+    setDropTarget(null);
+    onDropFile(fileId, folderId);
+  };
+
+  const renderFolder = (folder: BeeFolder) => (
+    <div role="row" onClick={() => onOpenFolder(folder)}
+      onDragOver={e => handleDragOver(e, folder.id)} onDragLeave={() => setDropTarget(null)} onDrop={e => handleDrop(e, folder.id)}
+      className={`grid items-center gap-4 px-4 h-full cursor-pointer transition-colors ${dropTarget === folder.id ? 'bg-amber-50' : 'hover:bg-slate-50'}`} style={{ gridTemplateColumns: GRID_TEMPLATE }}>
+      <FolderIcon className="w-5 h-5 text-amber-500/70 mx-auto" />
+      <span className="text-sm font-bold text-slate-900 truncate" title={folder.name}>{folder.name}</span>
+      <span className={cellClass}>—</span>
+      <span className={cellClass}>Cell</span>
+      <span className={cellClass}>{new Date(folder.createdAt).toLocaleDateString()}</span>
+      <span className={cellClass}>—</span>
+      <span></span>
+    </div>
+  );
+
+  const renderFile = (file: BeeFile) => {
+    const isSelected = selected.has(file.id);
+    const subtitle = [showLocation ? getLocationLabel(file.parentId) : '', view === 'trash' ? `Purges in ${daysUntilPurge(file, retentionDays)} day(s)` : ''].filter(Boolean).join(' • ');
+    return (
+      <div role="row" onClick={e => onRowClick(e, file)} draggable={view === 'hive'}
+        onDragStart={e => { e.dataTransfer.setData(FILE_DRAG_TYPE, file.id); e.dataTransfer.effectAllowed = 'move'; }}
+        className={`group grid items-center gap-4 px-4 h-full cursor-pointer select-none transition-colors ${isSelected ? 'bg-amber-50' : 'hover:bg-slate-50'}`} style={{ gridTemplateColumns: GRID_TEMPLATE }}>
+        <button onClick={e => { e.stopPropagation(); onToggleSelect(e, file); }} title={isSelected ? 'Deselect' : 'Select'}
+          className={`w-6 h-6 mx-auto flex items-center justify-center rounded-lg border-2 transition-all ${isSelected ? 'bg-amber-600 border-amber-600 text-white' : 'bg-white border-slate-200 text-transparent hover:border-amber-400'}`}>
+          <CheckIcon className="w-3 h-3" />
+        </button>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 min-w-0">
+            {view === 'hive' && (
+              <button onClick={e => { e.stopPropagation(); onStar(file); }} title={file.starred ? 'Unstar' : 'Star'}
+                className={`shrink-0 ${file.starred ? 'text-amber-500' : 'text-slate-200 hover:text-amber-500'}`}>
+                <StarIcon className="w-3.5 h-3.5" filled={!!file.starred} />
+              </button>
+            )}
+            {file.label && <span className={`w-2 h-2 rounded-full shrink-0 ${LABEL_SWATCHES[file.label]}`}></span>}
+            <span className="text-sm font-bold text-slate-900 truncate group-hover:text-amber-600 transition-colors" title={file.name}>{file.name}</span>
+            {file.tags?.slice(0, 3).map(tag => <span key={tag} className="shrink-0 px-1.5 py-0.5 rounded-md text-[9px] font-bold bg-amber-50 text-amber-700 border border-amber-100">#{tag}</span>)}
+          </div>
+          {subtitle && <p className={`text-[9px] font-black uppercase tracking-widest truncate ${view === 'trash' ? 'text-red-400' : 'text-amber-600/70'}`}>{subtitle}</p>}
+        </div>
+        <span className={cellClass}>{formatFileSize(file.size)}</span>
+        <span className={`${cellClass} normal-case tracking-normal font-bold`} title={file.type}>{file.type || '—'}</span>
+        <span className={cellClass}>{new Date(file.lastModified).toLocaleDateString()}</span>
+        <span className={cellClass}>{file.category}</span>
+        <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {view === 'trash' ? (
+            <button onClick={e => { e.stopPropagation(); onRestore(file.id); }} title="Restore" className="p-2 text-slate-400 hover:text-amber-600 rounded-lg"><RestoreIcon className="w-4 h-4" /></button>
+          ) : (
+            <button onClick={e => { e.stopPropagation(); onOpen(file); }} title="Preview" className="p-2 text-slate-400 hover:text-amber-600 rounded-lg"><EyeIcon className="w-4 h-4" /></button>
+          )}
+          <button onClick={e => { e.stopPropagation(); onDelete(file.id); }} title={view === 'trash' ? 'Delete forever' : 'Move to trash'} className="p-2 text-slate-400 hover:text-red-500 rounded-lg"><TrashIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div role="table" className="bg-white rounded-[2rem] border border-slate-100 shadow-sm">
+      <div role="row" className="grid items-center gap-4 px-4 py-3 border-b border-slate-100" style={{ gridTemplateColumns: GRID_TEMPLATE }}>
+        <span></span>
+        {columns.map(([id, label]) => (
+          <button key={id} role="columnheader" onClick={() => onSort(id)} aria-sort={sortBy === id ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+            className={`flex items-center gap-1.5 text-[9px] font-black uppercase tracking-[0.15em] text-left transition-colors ${sortBy === id ? 'text-amber-600' : 'text-slate-400 hover:text-slate-900'}`}>
+            {label}
+            {sortBy === id && <svg className={`w-3 h-3 transform ${sortOrder === 'desc' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 15l7-7 7 7" /></svg>}
+          </button>
+        ))}
+        <span></span>
+      </div>
+      <div ref={grid.setContainer} style={{ paddingTop: grid.padTop, paddingBottom: grid.padBottom }}>
+        {grid.rows.map(row => {
+          const item = items[row.start];
+          return (
+            <div key={row.index} data-row={row.index} ref={grid.observeRow} className="border-b border-slate-50 last:border-b-0" style={{ height: ROW_HEIGHT }}>
+              {item.kind === 'folder' ? renderFolder(item.folder) : renderFile(item.file)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FileTable;
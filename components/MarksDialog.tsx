@@ -0,0 +1,33 @@
+import React from 'react';
+import { BeeFile, FileMarks } from '../types';
+import FileMarksEditor from './FileMarksEditor';
+import { TagIcon } from './Icons';
+
+interface MarksDialogProps {
+  file: BeeFile;
+  knownTags: string[];
+  onChange: (fileId: string, marks: FileMarks) => void;
+  onClose: () => void;
+}
+
+const MarksDialog: React.FC<MarksDialogProps> = ({ file, knownTags, onChange, onClose }) => (
+  <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={onClose}>
+    <div className="w-full max-w-md bg-white rounded-[2.5rem] border border-amber-500/20 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+      <div className="px-8 py-6 border-b border-slate-100 flex items-center gap-4">
+        <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><TagIcon className="w-5 h-5" /></div>
+        <div className="min-w-0">
+          <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Tags & Labels</h3>
+          <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase truncate" title={file.name}>{file.name}</p>
+        </div>
+      </div>
+      <div className="p-8">
+        <FileMarksEditor file={file} knownTags={knownTags} onChange={onChange} />
+      </div>
+      <div className="px-8 py-5 border-t border-slate-100 flex justify-end">
+        <button onClick={onClose} className="px-8 py-3 bg-amber-600 text-white rounded-2xl font-black text-xs hover:bg-amber-700 transition-all active:scale-95 shadow-lg uppercase tracking-widest">Done</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default MarksDialog;
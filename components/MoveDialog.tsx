@@ -0,0 +1,69 @@
+
+import React, { useState } from 'react';
+import { BeeFile, BeeFolder } from '../types';
+import { getChildFolders } from '../services/folderService';
+import { FolderIcon, HexagonIcon, MoveIcon } from './Icons';
+
+interface MoveDialogProps {
+  file: BeeFile;
+  folders: BeeFolder[];
+  onMove: (fileId: string, folderId: string | null) => void;
+  onClose: () => void;
+}
+
+const MoveDialog: React.FC<MoveDialogProps> = ({ file, folders, onMove, onClose }) => {
+  const [target, setTarget] = useState<string | null>(file.parentId);
+
+  const renderBranch = (parentId: string | null, depth: number): React.ReactNode =>
+    getChildFolders(folders, parentId).map(folder => (
+      <React.Fragment key={folder.id}>
+        <button
+          onClick={() => setTarget(folder.id)}
+          style={{ paddingLeft: `${1.25 + depth * 1.25}rem` }}
+          className={`w-full flex items-center gap-3 pr-5 py-3 text-left text-xs font-bold transition-colors ${target === folder.id ? 'bg-amber-50 text-amber-600' : 'text-slate-600 hover:bg-slate-50'}`}
+        >
+          <FolderIcon className="w-4 h-4 shrink-0 text-amber-500" />
+          <span className="truncate">{folder.name}</span>
+          {folder.id === file.parentId && <span className="ml-auto text-[8px] font-black uppercase tracking-widest text-slate-300">Current</span>}
+        </button>
+        {renderBranch(folder.id, depth + 1)}
+      </React.Fragment>
+    ));
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-[2.5rem] overflow-hidden border border-amber-500/20 shadow-2xl flex flex-col max-h-[80vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center gap-4">
+          <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><MoveIcon className="w-5 h-5" /></div>
+          <div className="min-w-0">
+            <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Move To…</h3>
+            <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase truncate" title={file.name}>{file.name}</p>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto py-2">
+          <button
+            onClick={() => setTarget(null)}
+            className={`w-full flex items-center gap-3 px-5 py-3 text-left text-xs font-black uppercase tracking-widest transition-colors ${target === null ? 'bg-amber-50 text-amber-600' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <HexagonIcon className="w-4 h-4 shrink-0 text-amber-500" />
+            Hive Root
+            {file.parentId === null && <span className="ml-auto text-[8px] font-black uppercase tracking-widest text-slate-300">Current</span>}
+          </button>
+          {renderBranch(null, 1)}
+        </div>
+        <div className="px-8 py-5 border-t border-slate-100 flex items-center justify-between">
+          <button onClick={onClose} className="px-6 py-2.5 text-slate-400 font-black hover:text-slate-900 transition-colors uppercase tracking-widest text-[9px] hover:bg-slate-50 rounded-lg">Cancel</button>
+          <button
+            disabled={target === file.parentId}
+            onClick={() => { onMove(file.id, target); onClose(); }}
+            className="px-8 py-3 bg-amber-600 text-white rounded-2xl font-black text-xs hover:bg-amber-700 transition-all active:scale-95 shadow-lg uppercase tracking-widest disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Move Here
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MoveDialog;
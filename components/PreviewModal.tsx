@@ -1,20 +1,40 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { BeeFile } from '../types';
-import { getFileBlob, formatFileSize } from '../services/storageService';
-import { getFileInsight } from '../services/geminiService';
-import { TrashIcon, ShareIcon, EyeIcon, HexagonIcon, MusicIcon, PlayIcon, PauseIcon, VolumeIcon, BeeIcon } from './Icons';
+import { BeeFile, BeeFileVersion, FileClassification, FileMarks } from '../types';
+import { getFileBlob, formatFileSize, hashBlob } from '../services/storageService';
+import { HiveLockedError } from '../services/cryptoService';
+import { isTextFile } from '../services/searchService';
+import { getStreamUrl } from '../services/pwaService';
+import VersionsPanel from './VersionsPanel';
+import FileMarksEditor from './FileMarksEditor';
+import ClassificationPanel from './ClassificationPanel';
+import { TrashIcon, ShareIcon, EyeIcon, HexagonIcon, MusicIcon, PlayIcon, PauseIcon, VolumeIcon, LockIcon } from './Icons';
 
 interface PreviewModalProps {
   file: BeeFile;
   onClose: () => void;
   onDelete: (id: string) => void;
+  versions: BeeFileVersion[];
+  versionLimit: number;
+  onRestoreVersion: (version: BeeFileVersion) => Promise<void>;
+  onDeleteVersion: (version: BeeFileVersion) => void;
+  onAdjustVersionLimit: () => void;
+  knownTags: string[];
+  onChangeMarks: (fileId: string, marks: FileMarks) => void;
+  onAcceptClassification: (fileId: string, accepted: Pick<FileClassification, 'category' | 'tags' | 'title'>) => Promise<void>;
+  onDismissClassification: (fileId: string) => Promise<void>;
+  onClassify: (file: BeeFile) => Promise<void>;
+  onShare: (file: BeeFile) => void;
 }
 
-const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete }) => {
+type IntegrityState = 'idle' | 'checking' | 'verified' | 'mismatch' | 'error';
+
+const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete, versions, versionLimit, onRestoreVersion, onDeleteVersion, onAdjustVersionLimit, knownTags, onChangeMarks, onAcceptClassification, onDismissClassification, onClassify, onShare }) => {
+  const [viewingVersion, setViewingVersion] = useState<BeeFileVersion | null>(null);
   const [url, setUrl] = useState<string | null>(null);
-  const [insight, setInsight] = useState<string>("Analyzing asset lattice structure...");
-  const [loadingInsight, setLoadingInsight] = useState(true);
+  const [integrity, setIntegrity] = useState<IntegrityState>('idle');
+  const [computedHash, setComputedHash] = useState<string | null>(null);
+  const [locked, setLocked] = useState(false);
   const [textContent, setTextContent] = useState<string | null>(null);
   
   // Custom Media State
@@ -26,14 +46,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
   const audioRef = useRef<HTMLAudioElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
-  const isText = useMemo(() => {
-    const textTypes = [
-      'text/plain', 'text/markdown', 'application/json', 'application/javascript', 
-      'text/javascript', 'text/css', 'text/html', 'application/xml', 'text/csv'
-    ];
-    const extensions = ['.txt', '.md', '.js', '.json', '.css', '.html', '.ts', '.tsx', '.py', '.java', '.c', '.cpp', '.xml', '.yaml', '.yml'];
-    return textTypes.includes(file.type) || extensions.some(ext => file.name.toLowerCase().endsWith(ext));
-  }, [file]);
+  const isText = useMemo(() => isTextFile(file.name, file.type), [file]);
 
   const isAudio = useMemo(() => {
     return file.type.startsWith('audio/') || ['.mp3', '.wav', '.ogg', '.m4a', '.flac'].some(ext => file.name.toLowerCase().endsWith(ext));
@@ -47,38 +60,51 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
     return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
   }, [file]);
 
+  // The viewer shows either the current content or an archived version picked in the Versions panel
+  const source = viewingVersion || file;
+
+  useEffect(() => {
+    if (viewingVersion && !versions.some(v => v.id === viewingVersion.id)) setViewingVersion(null);
+  }, [versions, viewingVersion]);
+
+  useEffect(() => {
+    setViewingVersion(null);
+  }, [file.id]);
+
   useEffect(() => {
     let currentUrl: string | null = null;
     const loadFile = async () => {
       try {
-        const blob = await getFileBlob(file.blobId);
-        let blobToUse = blob;
-        
-        if (isPDF) {
-          blobToUse = new Blob([blob], { type: 'application/pdf' });
-        } else if (file.type) {
-          blobToUse = new Blob([blob], { type: file.type });
-        }
-        
-        currentUrl = URL.createObjectURL(blobToUse);
-        setUrl(currentUrl);
+        setLocked(false);
+        // Media streams from the service worker, which answers range requests, so seeking reads only what it needs
+        const streamUrl = (isAudio || isVideo) && !isText ? getStreamUrl(source) : null;
+        if (streamUrl) {
+          setUrl(streamUrl);
+        } else {
+          const blob = await getFileBlob(source);
+          let blobToUse = blob;
 
-        if (isText) {
-          const text = await blob.text();
-          setTextContent(text);
-        }
+          // Slicing relabels the type without copying, so OPFS-backed files stay on disk
+          if (isPDF) {
+            blobToUse = blob.slice(0, blob.size, 'application/pdf');
+          } else if (source.type) {
+            blobToUse = blob.slice(0, blob.size, source.type);
+          }
 
-        let snippet = "";
-        if (isText) {
-          snippet = (await blob.slice(0, 1000).text()).substring(0, 1000);
+          currentUrl = URL.createObjectURL(blobToUse);
+          setUrl(currentUrl);
+
+          if (isText) {
+            const text = await blob.text();
+            setTextContent(text);
+          }
         }
-        const aiResponse = await getFileInsight(file.name, file.type, snippet);
-        setInsight(aiResponse);
-        setLoadingInsight(false);
       } catch (err) {
+        if (err instanceof HiveLockedError) {
+          setLocked(true);
+          return;
+        }
         console.error("Failed to load preview:", err);
-        setInsight("The lattice failed to decipher this asset. It remains secure.");
-        setLoadingInsight(false);
       }
     };
 
@@ -86,14 +112,27 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
     return () => {
       if (currentUrl) URL.revokeObjectURL(currentUrl);
     };
-  }, [file, isText, isPDF]);
+  }, [source, isText, isPDF, isAudio, isVideo]);
 
-  const handleShare = () => {
-    const shareText = `🐝 Shared from Bee Store Hive: ${file.name} (${formatFileSize(file.size)})`;
-    navigator.clipboard.writeText(shareText);
-    alert('Access token copied to clipboard.');
+  useEffect(() => {
+    setIntegrity('idle');
+    setComputedHash(null);
+  }, [source]);
+
+  const handleVerify = async () => {
+    setIntegrity('checking');
+    try {
+      const digest = await hashBlob(await getFileBlob(source));
+      setComputedHash(digest);
+      setIntegrity(!source.hash || digest === source.hash ? 'verified' : 'mismatch');
+    } catch (err) {
+      console.error("Integrity check failed:", err);
+      setIntegrity('error');
+    }
   };
 
+  const displayHash = source.hash || computedHash;
+
   const formatTime = (time: number) => {
     const mins = Math.floor(time / 60);
     const secs = Math.floor(time % 60);
@@ -148,7 +187,7 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
             </div>
             <div className="min-w-0">
               <h3 className="font-black text-base truncate max-w-[200px] md:max-w-md text-slate-900 tracking-tight uppercase leading-none mb-1" title={file.name}>{file.name}</h3>
-              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase">{formatFileSize(file.size)} • {file.type || 'Lattice Asset'}</p>
+              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase">{viewingVersion ? `v${viewingVersion.version} • ` : ''}{formatFileSize(source.size)} • {source.type || 'Lattice Asset'}</p>
             </div>
           </div>
           <button onClick={onClose} className="p-2.5 bg-slate-50 rounded-xl text-slate-400 hover:text-slate-900 transition-all border border-slate-100 hover:rotate-90">
@@ -160,7 +199,15 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
         <div className="flex-1 overflow-y-auto lg:overflow-hidden bg-slate-50/30 flex flex-col lg:flex-row p-4 md:p-6 gap-6 min-h-0 custom-scrollbar">
           {/* Main Viewer Area */}
           <div className="flex-1 min-h-[400px] lg:min-h-0 flex items-center justify-center bg-slate-900/5 rounded-[2rem] border border-slate-200/60 overflow-hidden shadow-inner relative group bg-white">
-            {file.type.startsWith('image/') ? (
+            {locked ? (
+              <div className="text-center p-12 max-w-sm">
+                <div className="w-20 h-20 bg-amber-50 rounded-[1.5rem] flex items-center justify-center text-amber-500 mx-auto mb-6 shadow-inner">
+                   <LockIcon className="w-10 h-10" />
+                </div>
+                <h4 className="text-lg font-black text-slate-400 uppercase tracking-tighter mb-2">Hive Sealed</h4>
+                <p className="text-xs text-slate-400 font-medium italic">This asset is encrypted. Unlock your hive with your password to view it.</p>
+              </div>
+            ) : file.type.startsWith('image/') ? (
               <div className="w-full h-full flex items-center justify-center p-4">
                 <img src={url || ''} alt={file.name} className="max-w-full max-h-full object-contain rounded-lg shadow-2xl transition-all duration-700 hover:scale-[1.02]" />
               </div>
@@ -293,29 +340,36 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ file, onClose, onDelete })
 
           {/* Sidebar Section */}
           <div className="lg:w-72 flex flex-col gap-5 shrink-0 min-h-0">
-            <div className="bg-white border border-amber-500/10 p-6 rounded-[2rem] relative overflow-hidden flex-1 shadow-sm flex flex-col group hover:border-amber-500/30 transition-all min-h-[250px] lg:min-h-0">
-              <div className="flex items-center gap-2.5 mb-4 shrink-0">
-                <span className="bg-amber-100 text-amber-600 text-[8px] font-black px-3 py-1.5 rounded-full uppercase tracking-widest border border-amber-200 flex items-center gap-2">
-                   {loadingInsight && <span className="w-1 h-1 bg-amber-500 rounded-full animate-ping"></span>}
-                   BeeAI Insight
-                </span>
-              </div>
-              <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
-                <p className="text-sm leading-relaxed text-slate-600 font-light italic">
-                  "{insight}"
-                </p>
-              </div>
-              <div className="mt-4 pt-4 border-t border-slate-50 flex items-center justify-between shrink-0">
-                 <div className="flex flex-col">
-                    <span className="text-[8px] font-black uppercase text-slate-300 tracking-widest">Lattice Confidence</span>
-                    <div className="w-16 h-1 bg-slate-100 rounded-full mt-1"><div className="w-3/4 h-full bg-amber-400 rounded-full shadow-[0_0_5px_rgba(251,191,36,0.5)]"></div></div>
-                 </div>
-                 <BeeIcon className="w-5 h-5 text-amber-500 opacity-20" />
+            <ClassificationPanel file={file} onAccept={onAcceptClassification} onDismiss={onDismissClassification} onClassify={onClassify} />
+
+            <div className="bg-white border border-slate-100 p-5 rounded-[2rem] shadow-sm space-y-3 shrink-0">
+              <div className="flex items-center justify-between">
+                <span className="text-[8px] font-black uppercase text-slate-400 tracking-widest">SHA-256 Fingerprint</span>
+                {integrity === 'verified' && <span className="text-[8px] font-black uppercase tracking-widest text-green-600">{source.hash ? 'Verified' : 'Computed'}</span>}
+                {integrity === 'mismatch' && <span className="text-[8px] font-black uppercase tracking-widest text-red-600">Mismatch</span>}
+                {integrity === 'error' && <span className="text-[8px] font-black uppercase tracking-widest text-red-600">Unreadable</span>}
               </div>
+              <p className="font-mono text-[10px] text-slate-600 break-all leading-relaxed select-all" title={displayHash || undefined}>
+                {displayHash || 'Not recorded — stored before content addressing.'}
+              </p>
+              {integrity === 'mismatch' && computedHash && (
+                <p className="font-mono text-[10px] text-red-500 break-all leading-relaxed">Read back: {computedHash}</p>
+              )}
+              <button onClick={handleVerify} disabled={integrity === 'checking'}
+                className="w-full py-2.5 bg-slate-50 text-slate-500 font-black rounded-xl hover:bg-amber-50 hover:text-amber-600 transition-all border border-slate-100 uppercase tracking-widest text-[9px] disabled:opacity-50">
+                {integrity === 'checking' ? 'Hashing...' : source.hash ? 'Verify Integrity' : 'Compute Hash'}
+              </button>
+            </div>
+
+            <div className="bg-white border border-slate-100 p-5 rounded-[2rem] shadow-sm shrink-0">
+              <FileMarksEditor file={file} knownTags={knownTags} onChange={onChangeMarks} />
             </div>
-            
+
+            <VersionsPanel file={file} versions={versions} versionLimit={versionLimit} viewingId={viewingVersion?.id ?? null}
+              onView={setViewingVersion} onRestore={onRestoreVersion} onDelete={onDeleteVersion} onAdjustLimit={onAdjustVersionLimit} />
+
             <div className="grid grid-cols-2 gap-3 shrink-0">
-              <button onClick={handleShare} className="flex-1 py-3.5 bg-slate-900 text-white font-black rounded-xl hover:bg-black active:scale-95 transition-all uppercase tracking-widest text-[9px] shadow-lg flex items-center justify-center gap-2">
+              <button onClick={() => onShare(file)} className="flex-1 py-3.5 bg-slate-900 text-white font-black rounded-xl hover:bg-black active:scale-95 transition-all uppercase tracking-widest text-[9px] shadow-lg flex items-center justify-center gap-2">
                 <ShareIcon className="w-3.5 h-3.5" />
                 Share
               </button>
@@ -0,0 +1,23 @@
+import React, { useEffect, useState } from 'react';
+import { JobActivity, getJobActivity, subscribeJobActivity } from '../services/workerPool';
+
+// Its own component so that job churn during a big batch re-renders this row, not the hive
+const ProcessingStatus: React.FC = () => {
+  const [activity, setActivity] = useState<JobActivity>(getJobActivity);
+
+  useEffect(() => subscribeJobActivity(setActivity), []);
+
+  const busy = activity.running + activity.queued > 0;
+  return (
+    <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+      <span className="text-slate-300">Worker Bees</span>
+      {busy ? (
+        <span className="text-amber-600 animate-pulse">{activity.running} Busy{activity.queued ? ` • ${activity.queued} Queued` : ''}</span>
+      ) : (
+        <span className="text-slate-300">Idle</span>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingStatus;
@@ -0,0 +1,83 @@
+
+import React, { useRef, useState } from 'react';
+import { QueryError, QUERY_FIELDS, getFieldPrefix } from '../services/queryService';
+import { SearchIcon } from './Icons';
+
+interface SearchBoxProps {
+  value: string;
+  error: QueryError | null;
+  onChange: (value: string) => void;
+}
+
+const SearchBox: React.FC<SearchBoxProps> = ({ value, error, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const prefix = focused ? getFieldPrefix(value, caret) : null;
+  const suggestions = prefix ? QUERY_FIELDS.filter(f => f.name.startsWith(prefix) && f.name !== prefix) : [];
+  const selected = Math.min(highlighted, suggestions.length - 1);
+
+  const update = (next: string, nextCaret: number) => {
+    onChange(next);
+    setCaret(nextCaret);
+    setHighlighted(0);
+  };
+
+  const complete = (field: string) => {
+    const start = caret - (prefix?.length || 0);
+    const completed = `${field}:`;
+    update(value.slice(0, start) + completed + value.slice(caret), start + completed.length);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(start + completed.length, start + completed.length));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((selected + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      complete(suggestions[selected].name);
+    } else if (e.key === 'Escape') {
+      setCaret(0);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 xl:flex-none">
+      <div className={`flex items-center bg-white rounded-2xl border p-1.5 group focus-within:ring-4 transition-all shadow-sm ${error ? 'border-red-300 focus-within:ring-red-500/5' : 'border-slate-200 focus-within:border-amber-500/40 focus-within:ring-amber-500/5'}`}>
+        <div className="w-10 h-10 flex items-center justify-center text-slate-300 group-focus-within:text-amber-500 transition-colors"><SearchIcon className="w-5 h-5" /></div>
+        <input ref={inputRef} type="text" placeholder="Locate asset in swarm..." value={value} spellCheck={false}
+          onChange={e => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+          onSelect={e => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          className="bg-transparent border-none focus:outline-none text-xs font-bold px-2 w-full xl:w-64 placeholder:text-slate-300 placeholder:font-black placeholder:uppercase placeholder:tracking-widest" />
+        {value && <button onClick={() => update('', 0)} className="p-2 hover:bg-slate-100 rounded-xl text-slate-300 hover:text-slate-900 transition-all"><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg></button>}
+      </div>
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 mt-2 bg-white border border-slate-100 rounded-2xl shadow-2xl z-50 py-2 animate-[fadeIn_0.2s_ease-out]">
+          {suggestions.map((field, i) => (
+            // mousedown keeps focus in the input, which blur would otherwise close the list on
+            <button key={field.name} onMouseDown={e => { e.preventDefault(); complete(field.name); }} onMouseEnter={() => setHighlighted(i)}
+              className={`w-full flex items-baseline gap-3 px-5 py-2.5 text-left transition-colors ${i === selected ? 'bg-amber-50' : 'hover:bg-slate-50'}`}>
+              <span className="text-[10px] font-black uppercase tracking-widest text-amber-600">{field.name}:</span>
+              <span className="text-[10px] text-slate-400 truncate">{field.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {error && suggestions.length === 0 && (
+        <p className="absolute left-2 right-0 mt-1.5 text-[9px] font-black uppercase tracking-widest text-red-500 truncate" title={error.message}>
+          {error.message} <span className="text-red-300">at {error.position + 1}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
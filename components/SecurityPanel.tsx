@@ -0,0 +1,124 @@
+
+import React, { useState } from 'react';
+import { HiveKeyState } from '../types';
+import { ShieldIcon, LockIcon, CloseIcon } from './Icons';
+
+interface SecurityPanelProps {
+  keyState: HiveKeyState;
+  encryptProgress: { done: number, total: number } | null;
+  onEnableEncryption: (password: string) => Promise<string | null>;
+  onLock: () => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-100 rounded-xl px-5 py-3 focus:outline-none focus:border-amber-500 focus:bg-white transition-all font-bold text-sm";
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({ keyState, encryptProgress, onEnableEncryption, onLock, onChangePassword, onClose }) => {
+  const [enablePassword, setEnablePassword] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<string | null>, success: string) => {
+    setError('');
+    setNotice('');
+    setBusy(true);
+    try {
+      const failure = await action();
+      if (failure) setError(failure);
+      else setNotice(success);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Security operation failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const failure = await onEnableEncryption(enablePassword);
+      if (!failure) setEnablePassword('');
+      return failure;
+    }, 'Encryption enabled. Your hive is sealed at rest.');
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match.');
+      return;
+    }
+    run(async () => {
+      const failure = await onChangePassword(currentPassword, newPassword);
+      if (!failure) {
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+      }
+      return failure;
+    }, keyState === 'disabled' ? 'Password updated.' : 'Password updated and hive key re-wrapped.');
+  };
+
+  const stateLabel = keyState === 'disabled' ? 'Not Encrypted' : keyState === 'locked' ? 'Encrypted • Sealed' : 'Encrypted • Unlocked';
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-[2.5rem] overflow-hidden border border-amber-500/20 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><ShieldIcon className="w-5 h-5" /></div>
+            <div>
+              <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Hive Walls</h3>
+              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase">{stateLabel}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2.5 bg-slate-50 rounded-xl text-slate-400 hover:text-slate-900 transition-all border border-slate-100"><CloseIcon className="w-4 h-4" /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8">
+          {error && <div className="p-4 bg-red-50 text-red-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-red-100">{error}</div>}
+          {notice && <div className="p-4 bg-green-50 text-green-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-green-100">{notice}</div>}
+
+          {keyState === 'disabled' ? (
+            <form onSubmit={handleEnable} className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Encryption At Rest</h4>
+              <p className="text-xs text-slate-500 leading-relaxed">Files are encrypted with AES-GCM under a key derived from your password. If you forget the password, encrypted files cannot be recovered.</p>
+              <input type="password" placeholder="Confirm Password" required value={enablePassword} onChange={e => setEnablePassword(e.target.value)} className={inputClass} />
+              <button type="submit" disabled={busy} className="w-full bg-amber-600 text-white font-black py-3 rounded-xl hover:bg-amber-700 transition-all uppercase tracking-widest text-[10px] disabled:opacity-50">
+                {encryptProgress ? `Sealing ${encryptProgress.done} / ${encryptProgress.total}...` : busy ? 'Deriving Key...' : 'Enable Encryption'}
+              </button>
+            </form>
+          ) : (
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Encryption At Rest</h4>
+              {encryptProgress && <p className="text-xs font-bold text-amber-600">Sealing existing files: {encryptProgress.done} / {encryptProgress.total}</p>}
+              <p className="text-xs text-slate-500 leading-relaxed">
+                {keyState === 'locked' ? 'Your key is not in memory. Unlock the hive from the banner to read or add files.' : 'Your key is held in memory for this session only. Locking clears it until you enter your password again.'}
+              </p>
+              {keyState === 'unlocked' && (
+                <button onClick={onLock} disabled={!!encryptProgress} className="w-full flex items-center justify-center gap-2 bg-slate-900 text-white font-black py-3 rounded-xl hover:bg-black transition-all uppercase tracking-widest text-[10px] disabled:opacity-50">
+                  <LockIcon className="w-3.5 h-3.5" />Lock Now
+                </button>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleChangePassword} className="space-y-3 pt-6 border-t border-slate-100">
+            <h4 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Change Password</h4>
+            <input type="password" placeholder="Current Password" required value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClass} />
+            <input type="password" placeholder="New Password" required value={newPassword} onChange={e => setNewPassword(e.target.value)} className={inputClass} />
+            <input type="password" placeholder="Confirm New Password" required value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={inputClass} />
+            <button type="submit" disabled={busy} className="w-full bg-white text-slate-900 font-black py-3 rounded-xl hover:bg-slate-50 transition-all border-2 border-slate-100 uppercase tracking-widest text-[10px] disabled:opacity-50">Update Password</button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { BeeShare, ShareTargetKind } from '../types';
+import { SHARE_EXPIRY_OPTIONS, ShareOptions, getShareUrl } from '../services/shareService';
+import { CloseIcon, ShareIcon } from './Icons';
+
+interface ShareDialogProps {
+  name: string;
+  kind: ShareTargetKind;
+  onCreate: (options: ShareOptions) => Promise<BeeShare>;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ name, kind, onCreate, onClose }) => {
+  const [expiresInMs, setExpiresInMs] = useState(SHARE_EXPIRY_OPTIONS[1][1]);
+  const [password, setPassword] = useState('');
+  const [share, setShare] = useState<BeeShare | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setBusy(true);
+    try {
+      setShare(await onCreate({ expiresInMs, password }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The link could not be created.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopied(true);
+    } catch {
+      setError('Clipboard access was denied. Copy the link by hand.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={busy ? undefined : onClose}>
+      <div className="w-full max-w-md bg-white rounded-[2.5rem] border border-amber-500/20 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><ShareIcon className="w-5 h-5" /></div>
+            <div className="min-w-0">
+              <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Share {kind === 'folder' ? 'Cell' : 'Asset'}</h3>
+              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase truncate" title={name}>{name}</p>
+            </div>
+          </div>
+          <button onClick={onClose} disabled={busy} className="p-2.5 bg-slate-50 rounded-xl text-slate-400 hover:text-slate-900 transition-all border border-slate-100 disabled:opacity-50"><CloseIcon className="w-4 h-4" /></button>
+        </div>
+        <div className="p-8 space-y-6">
+          {error && <div className="p-4 bg-red-50 text-red-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-red-100">{error}</div>}
+          {share ? (
+            <div className="space-y-4">
+              <p className="text-xs text-slate-500 leading-relaxed">
+                Anyone opening this link in this browser can view{kind === 'folder' ? ' and download everything in the cell' : ' and download the file'} until {new Date(share.expiresAt).toLocaleString()}{share.passwordHash ? ', after entering the password' : ''}.
+              </p>
+              <input readOnly value={getShareUrl(share.token)} onFocus={e => e.target.select()}
+                className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-xs font-mono text-slate-700 outline-none focus:border-amber-500" />
+              <button onClick={handleCopy} className="w-full bg-amber-600 text-white font-black py-3 rounded-xl hover:bg-amber-700 transition-all uppercase tracking-widest text-[10px]">{copied ? 'Link Copied' : 'Copy Link'}</button>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-5">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Expires After</label>
+                <div className="flex bg-slate-50 p-1 rounded-2xl border border-slate-100">
+                  {SHARE_EXPIRY_OPTIONS.map(([label, ms]) => (
+                    <button key={ms} type="button" onClick={() => setExpiresInMs(ms)}
+                      className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-[0.15em] transition-all ${expiresInMs === ms ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-400 hover:text-slate-900'}`}>{label}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Password (optional)</label>
+                <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="new-password" placeholder="Leave empty for an open link"
+                  className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm outline-none focus:border-amber-500" />
+              </div>
+              <button type="submit" disabled={busy} className="w-full bg-amber-600 text-white font-black py-3 rounded-xl hover:bg-amber-700 transition-all uppercase tracking-widest text-[10px] disabled:opacity-50">{busy ? 'Creating…' : 'Create Link'}</button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
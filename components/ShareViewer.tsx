@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BeeFile } from '../types';
+import { SharedContent, ShareError, openShare, requiresSharePassword } from '../services/shareService';
+import { getFileBlob, formatFileSize } from '../services/storageService';
+import { getFolderPath } from '../services/folderService';
+import { downloadBlob } from '../services/downloadService';
+import { isTextFile } from '../services/searchService';
+import Background from './Background';
+import { BeeIcon, DownloadIcon, EyeIcon, FileIcon, FolderIcon, LockIcon } from './Icons';
+
+// Text previews stop here; the download has the rest
+const MAX_TEXT_PREVIEW_BYTES = 256 * 1024;
+
+const downloadFile = async (file: BeeFile) => downloadBlob(await getFileBlob(file), file.name);
+
+const SharedFilePreview: React.FC<{ file: BeeFile }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const isText = isTextFile(file.name, file.type);
+
+  useEffect(() => {
+    let currentUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setText(null);
+    setFailed(false);
+    getFileBlob(file).then(async blob => {
+      if (cancelled) return;
+      if (isText) {
+        const content = await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text();
+        if (!cancelled) setText(content);
+        return;
+      }
+      currentUrl = URL.createObjectURL(blob);
+      setUrl(currentUrl);
+    }).catch(err => {
+      console.error("Shared preview failed:", err);
+      if (!cancelled) setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+      if (currentUrl) URL.revokeObjectURL(currentUrl);
+    };
+  }, [file.id, file.blobId, isText]);
+
+  const frameClass = "w-full max-h-[60vh] rounded-[2rem] bg-slate-50 border border-slate-100";
+  if (failed) return <p className="py-16 text-center text-[10px] font-black uppercase tracking-widest text-red-400">This file could not be read.</p>;
+  if (text !== null) return <pre className={`${frameClass} p-6 overflow-auto text-xs text-slate-700 whitespace-pre-wrap break-words`}>{text}</pre>;
+  if (!url) return <p className="py-16 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 animate-pulse">Loading preview…</p>;
+  if (file.type.startsWith('image/')) return <img src={url} alt={file.name} className={`${frameClass} object-contain`} />;
+  if (file.type.startsWith('video/')) return <video src={url} controls className={frameClass} />;
+  if (file.type.startsWith('audio/')) return <audio src={url} controls className="w-full" />;
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) return <iframe src={url} title={file.name} className={`${frameClass} h-[60vh]`} />;
+  return (
+    <div className="py-16 flex flex-col items-center gap-4 text-slate-300">
+      <FileIcon className="w-16 h-16" />
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">No preview for this type. Download it instead.</p>
+    </div>
+  );
+};
+
+interface ShareViewerProps {
+  token: string;
+}
+
+// The read-only page a share link opens. It needs no account: the token is the key.
+const ShareViewer: React.FC<ShareViewerProps> = ({ token }) => {
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const openedToken = useRef<string | null>(null);
+
+  const open = async (attempt?: string) => {
+    setBusy(true);
+    setPasswordError('');
+    try {
+      const opened = await openShare(token, attempt);
+      setContent(opened);
+      setNeedsPassword(false);
+      setSelectedId(opened.files.length === 1 ? opened.files[0].id : null);
+    } catch (err) {
+      if (err instanceof ShareError && err.code === 'password') setPasswordError(err.message);
+      else setError(err instanceof Error ? err.message : 'This link could not be opened.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    // Strict mode runs effects twice, which would count the visit twice
+    if (openedToken.current === token) return;
+    openedToken.current = token;
+    setContent(null);
+    setError('');
+    requiresSharePassword(token)
+      .then(needed => (needed ? setNeedsPassword(true) : open()))
+      .catch(err => setError(err instanceof Error ? err.message : 'This link could not be opened.'));
+  }, [token]);
+
+  const handleDownload = (file: BeeFile) => {
+    downloadFile(file).catch(err => {
+      console.error("Shared download failed:", err);
+      alert('The download failed.');
+    });
+  };
+
+  const share = content?.share;
+  const selected = content?.files.find(f => f.id === selectedId) || null;
+  const getLocation = (file: BeeFile) => content ? getFolderPath(content.folders, file.parentId).map(f => f.name).join(' / ') : '';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-[#fdfdfd] text-slate-900">
+      <Background />
+      <nav className="glass-effect sticky top-0 z-50 px-8 py-4 flex items-center justify-between border-b border-amber-500/10">
+        <div className="flex items-center gap-3">
+          <div className="bg-amber-500 p-2 rounded-lg text-white shadow-lg"><BeeIcon className="w-5 h-5" /></div>
+          <h1 className="text-xl font-black tracking-tighter uppercase text-slate-900">Bee<span className="text-amber-600">Store</span></h1>
+        </div>
+        <span className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-400">Read-only Share</span>
+      </nav>
+      <main className="flex-1 p-6 lg:p-12 max-w-5xl mx-auto w-full space-y-8">
+        {error ? (
+          <div className="py-32 text-center space-y-4">
+            <h2 className="text-3xl font-black text-slate-300 uppercase tracking-tighter">Link Unavailable</h2>
+            <p className="text-xs text-slate-500 uppercase tracking-[0.15em] font-bold">{error}</p>
+          </div>
+        ) : needsPassword ? (
+          <form onSubmit={e => { e.preventDefault(); open(password); }} className="max-w-sm mx-auto mt-24 p-8 bg-white rounded-[2.5rem] border border-amber-500/20 shadow-2xl space-y-5">
+            <div className="flex items-center gap-4">
+              <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><LockIcon className="w-5 h-5" /></div>
+              <h2 className="font-black text-base uppercase tracking-tight text-slate-900">Password Required</h2>
+            </div>
+            {passwordError && <div className="p-3 bg-red-50 text-red-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-red-100">{passwordError}</div>}
+            <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoFocus required
+              className="w-full bg-slate-50 border border-slate-100 rounded-xl px-4 py-3 text-sm outline-none focus:border-amber-500" />
+            <button type="submit" disabled={busy} className="w-full bg-amber-600 text-white font-black py-3 rounded-xl hover:bg-amber-700 transition-all uppercase tracking-widest text-[10px] disabled:opacity-50">{busy ? 'Checking…' : 'Open'}</button>
+          </form>
+        ) : !content || !share ? (
+          <p className="py-32 text-center text-[10px] font-black uppercase tracking-widest text-slate-400 animate-pulse">Opening link…</p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-[0.2em] text-amber-600">Shared by {share.ownerName}</p>
+                <h2 className="flex items-center gap-3 text-3xl font-black uppercase tracking-tighter text-slate-900 truncate" title={share.name}>
+                  {share.targetKind === 'folder' && <FolderIcon className="w-7 h-7 text-amber-500 shrink-0" />}{share.name}
+                </h2>
+              </div>
+              <p className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-400 shrink-0">Available until {new Date(share.expiresAt).toLocaleString()}</p>
+            </div>
+            {selected && (
+              <div className="p-6 bg-white rounded-[2.5rem] border border-slate-100 shadow-sm space-y-4">
+                <SharedFilePreview file={selected} />
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm font-bold text-slate-900 truncate" title={selected.name}>{selected.name} <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{formatFileSize(selected.size)}</span></p>
+                  <button onClick={() => handleDownload(selected)} className="flex items-center gap-2 px-5 py-2.5 bg-amber-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-amber-700 transition-all shrink-0">
+                    <DownloadIcon className="w-3.5 h-3.5" />Download
+                  </button>
+                </div>
+              </div>
+            )}
+            {share.targetKind === 'folder' && (
+              content.files.length === 0 ? (
+                <p className="py-16 text-center text-[10px] font-black uppercase tracking-widest text-slate-400">This cell is empty.</p>
+              ) : (
+                <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm divide-y divide-slate-50">
+                  {content.files.map(file => (
+                    <div key={file.id} className={`flex items-center gap-4 px-5 py-3 ${file.id === selectedId ? 'bg-amber-50' : ''}`}>
+                      <FileIcon className="w-5 h-5 text-slate-300 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-slate-900 truncate" title={file.name}>{file.name}</p>
+                        <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 truncate">{getLocation(file)} • {formatFileSize(file.size)} • {new Date(file.lastModified).toLocaleDateString()}</p>
+                      </div>
+                      <button onClick={() => setSelectedId(file.id)} title="Preview" className="p-2 text-slate-400 hover:text-amber-600 rounded-lg"><EyeIcon className="w-4 h-4" /></button>
+                      <button onClick={() => handleDownload(file)} title="Download" className="p-2 text-slate-400 hover:text-amber-600 rounded-lg"><DownloadIcon className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ShareViewer;
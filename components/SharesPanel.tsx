@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { BeeShare } from '../types';
+import { getShareUrl, isShareExpired } from '../services/shareService';
+import { CloseIcon, FileIcon, FolderIcon, LockIcon, ShareIcon, TrashIcon } from './Icons';
+
+interface SharesPanelProps {
+  shares: BeeShare[] | null; // Null while loading
+  onRevoke: (share: BeeShare) => Promise<void>;
+  onClose: () => void;
+}
+
+const SharesPanel: React.FC<SharesPanelProps> = ({ shares, onRevoke, onClose }) => {
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleCopy = async (share: BeeShare) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopiedToken(share.token);
+    } catch {
+      setError('Clipboard access was denied.');
+    }
+  };
+
+  const handleRevoke = async (share: BeeShare) => {
+    if (!window.confirm(`Revoke the link to "${share.name}"? Anyone holding it loses access.`)) return;
+    setError('');
+    try {
+      await onRevoke(share);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The link could not be revoked.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-xl animate-[fadeIn_0.3s_ease-out]" onClick={onClose}>
+      <div className="w-full max-w-2xl bg-white rounded-[2.5rem] overflow-hidden border border-amber-500/20 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="p-2.5 rounded-xl bg-amber-500 text-white shadow-lg"><ShareIcon className="w-5 h-5" /></div>
+            <div>
+              <h3 className="font-black text-base uppercase tracking-tight text-slate-900 leading-none mb-1">Shared By Me</h3>
+              <p className="text-[9px] text-amber-600 font-black tracking-[0.2em] uppercase">Links • Expiry • Visits</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2.5 bg-slate-50 rounded-xl text-slate-400 hover:text-slate-900 transition-all border border-slate-100"><CloseIcon className="w-4 h-4" /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-4">
+          {error && <div className="p-4 bg-red-50 text-red-600 text-[10px] font-black text-center rounded-xl uppercase tracking-widest border border-red-100">{error}</div>}
+          {shares === null && <p className="text-center text-[10px] font-black uppercase tracking-widest text-slate-400 py-8">Loading links…</p>}
+          {shares?.length === 0 && <p className="text-center text-[10px] font-black uppercase tracking-widest text-slate-400 py-8">Nothing shared yet. Use Share on a file or cell.</p>}
+          {shares?.map(share => {
+            const expired = isShareExpired(share);
+            return (
+              <div key={share.token} className="flex items-center gap-4 p-4 rounded-2xl border border-slate-100 bg-slate-50/50">
+                <div className="p-2.5 rounded-xl bg-white border border-slate-100 text-amber-500">
+                  {share.targetKind === 'folder' ? <FolderIcon className="w-5 h-5" /> : <FileIcon className="w-5 h-5" />}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="flex items-center gap-2 text-sm font-bold text-slate-900">
+                    <span className="truncate" title={share.name}>{share.name}</span>
+                    {share.passwordHash && <span title="Password protected"><LockIcon className="w-3.5 h-3.5 text-slate-400 shrink-0" /></span>}
+                  </p>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                    <span className={expired ? 'text-red-400' : 'text-green-600'}>{expired ? 'Expired' : 'Expires'} {new Date(share.expiresAt).toLocaleDateString()}</span>
+                    {' • '}{share.accessCount} visit{share.accessCount === 1 ? '' : 's'}
+                    {share.lastAccessedAt && <> • Last {new Date(share.lastAccessedAt).toLocaleString()}</>}
+                  </p>
+                </div>
+                {!expired && (
+                  <button onClick={() => handleCopy(share)} className="px-4 py-2 bg-white text-slate-500 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-[0.15em] hover:text-amber-600 transition-all">{copiedToken === share.token ? 'Copied' : 'Copy'}</button>
+                )}
+                <button onClick={() => handleRevoke(share)} title={expired ? 'Remove' : 'Revoke'} className="p-2.5 bg-red-50 text-red-400 rounded-xl hover:bg-red-500 hover:text-white transition-all border border-red-100"><TrashIcon className="w-4 h-4" /></button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharesPanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { TagIcon } from './Icons';
+
+interface TagSidebarProps {
+  tags: [string, number][]; // Tag and how many files carry it
+  activeTag: string | null;
+  onSelect: (tag: string | null) => void;
+}
+
+const TagSidebar: React.FC<TagSidebarProps> = ({ tags, activeTag, onSelect }) => (
+  <aside className="hidden lg:block w-52 shrink-0 space-y-3">
+    <h4 className="flex items-center gap-2 px-3 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400"><TagIcon className="w-3.5 h-3.5" />Tags</h4>
+    <div className="space-y-1">
+      {tags.map(([tag, count]) => (
+        <button key={tag} onClick={() => onSelect(activeTag === tag ? null : tag)}
+          className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-xs font-bold transition-colors ${activeTag === tag ? 'bg-amber-600 text-white' : 'text-slate-600 hover:bg-amber-50 hover:text-amber-600'}`}>
+          <span className="truncate">#{tag}</span>
+          <span className={`text-[9px] font-black px-2 py-0.5 rounded-lg ${activeTag === tag ? 'bg-white/20' : 'bg-slate-100 text-slate-400'}`}>{count}</span>
+        </button>
+      ))}
+    </div>
+  </aside>
+);
+
+export default TagSidebar;
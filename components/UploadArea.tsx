@@ -1,14 +1,18 @@
 
 import React, { useState, useRef } from 'react';
-import { StorageStatus } from '../types';
+import { StorageStatus, UploadSummary } from '../types';
+import { formatFileSize } from '../services/storageService';
 import { PlusIcon, BeeIcon } from './Icons';
 
 interface UploadAreaProps {
-  onUpload: (files: FileList) => Promise<void>;
-  status: StorageStatus;
+  onUpload: (files: FileList) => void;
+  summary: UploadSummary;
+  maxBytes: number;
 }
 
-const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, status }) => {
+const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, summary, maxBytes }) => {
+  const { status } = summary;
+  const percent = summary.total ? Math.round((summary.loaded / summary.total) * 100) : 0;
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -22,7 +26,7 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, status }) => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files) {
+    if (e.dataTransfer.files.length > 0) {
       onUpload(e.dataTransfer.files);
     }
   };
@@ -31,13 +35,14 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, status }) => {
     if (e.target.files) {
       onUpload(e.target.files);
     }
+    // Allow picking the same file again after a failure or cancellation
+    e.target.value = '';
   };
 
   return (
     <div 
       className={`relative group cursor-pointer border-3 border-dashed rounded-[2.5rem] p-10 transition-all duration-500 flex flex-col items-center justify-center text-center
-        ${isDragging ? 'border-amber-500 bg-amber-50 scale-[0.99]' : 'border-slate-200 bg-white hover:border-amber-500/40 hover:bg-amber-50/50'}
-        ${status === StorageStatus.UPLOADING ? 'pointer-events-none opacity-90' : ''}
+        ${isDragging ? 'border-amber-500 bg-amber-50 scale-[0.99]' : status === StorageStatus.ERROR ? 'border-red-200 bg-red-50/30 hover:border-red-300' : 'border-slate-200 bg-white hover:border-amber-500/40 hover:bg-amber-50/50'}
       `}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
@@ -52,11 +57,13 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, status }) => {
         onChange={handleChange}
       />
       
-      <div className={`mb-5 w-14 h-14 rounded-xl flex items-center justify-center transition-all duration-700 shadow-lg ${isDragging ? 'scale-110 rotate-12' : 'group-hover:scale-105'} ${status === StorageStatus.SUCCESS ? 'bg-green-500 shadow-green-500/20' : 'bg-amber-500 shadow-amber-500/20'}`}>
+      <div className={`mb-5 w-14 h-14 rounded-xl flex items-center justify-center transition-all duration-700 shadow-lg ${isDragging ? 'scale-110 rotate-12' : 'group-hover:scale-105'} ${status === StorageStatus.SUCCESS ? 'bg-green-500 shadow-green-500/20' : status === StorageStatus.ERROR ? 'bg-red-500 shadow-red-500/20' : 'bg-amber-500 shadow-amber-500/20'}`}>
         {status === StorageStatus.UPLOADING ? (
           <div className="w-6 h-6 border-[3px] border-white/20 border-t-white rounded-full animate-spin"></div>
         ) : status === StorageStatus.SUCCESS ? (
           <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={4} d="M5 13l4 4L19 7" /></svg>
+        ) : status === StorageStatus.ERROR ? (
+          <span className="text-2xl font-black text-white leading-none">!</span>
         ) : (
           <PlusIcon className="w-7 h-7 text-white" />
         )}
@@ -64,16 +71,22 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onUpload, status }) => {
 
       <div className="space-y-1">
         <h3 className="text-xl font-black text-slate-900 uppercase tracking-tighter">
-          {status === StorageStatus.UPLOADING ? 'Hiving data...' : status === StorageStatus.SUCCESS ? 'Pollen Secured' : 'Build Your Hive'}
+          {status === StorageStatus.UPLOADING ? 'Hiving data...' : status === StorageStatus.SUCCESS ? 'Pollen Secured' : status === StorageStatus.ERROR ? 'Intake Disrupted' : 'Build Your Hive'}
         </h3>
         <p className="text-slate-400 text-sm font-light italic">
-          {status === StorageStatus.UPLOADING ? 'Securing bytes...' : 'Drop files or browse the swarm (Max 300MB)'}
+          {status === StorageStatus.UPLOADING
+            ? `Securing bytes... ${formatFileSize(summary.loaded)} of ${formatFileSize(summary.total)} • ${summary.pending} remaining`
+            : status === StorageStatus.ERROR
+              ? `${summary.failed} file(s) failed — retry from the intake tray`
+              : `Drop files or browse the swarm (Max ${formatFileSize(maxBytes)})`}
         </p>
       </div>
 
       {status === StorageStatus.UPLOADING && (
         <div className="absolute bottom-0 left-0 w-full h-1.5 bg-slate-50 overflow-hidden rounded-b-[2.3rem]">
-          <div className="h-full bg-amber-500 animate-[pollen_1.5s_ease-in-out_infinite] shadow-lg"></div>
+          {summary.total > 0
+            ? <div className="h-full bg-amber-500 shadow-lg transition-all duration-300" style={{ width: `${percent}%` }}></div>
+            : <div className="h-full bg-amber-500 animate-[pollen_1.5s_ease-in-out_infinite] shadow-lg"></div>}
         </div>
       )}
 
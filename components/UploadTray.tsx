@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import { UploadItem, UploadSummary } from '../types';
+import { formatFileSize } from '../services/storageService';
+import { ChevronDownIcon, CloseIcon, RetryIcon, CheckIcon } from './Icons';
+
+interface UploadTrayProps {
+  items: UploadItem[];
+  summary: UploadSummary;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusLabels: Record<UploadItem['status'], string> = {
+  queued: 'Queued',
+  writing: 'Writing',
+  processing: 'Processing',
+  done: 'Secured',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const statusColors: Record<UploadItem['status'], string> = {
+  queued: 'text-slate-400',
+  writing: 'text-amber-600',
+  processing: 'text-amber-500',
+  done: 'text-green-600',
+  failed: 'text-red-500',
+  cancelled: 'text-slate-300',
+};
+
+const UploadTray: React.FC<UploadTrayProps> = ({ items, summary, onCancel, onRetry, onDismiss, onClearFinished }) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const percent = summary.total ? Math.round((summary.loaded / summary.total) * 100) : 0;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[55] w-[360px] max-w-[calc(100vw-3rem)] bg-white rounded-[2rem] border border-amber-500/20 shadow-[0_30px_80px_-20px_rgba(0,0,0,0.35)] overflow-hidden animate-[slideUp_0.4s_ease-out]">
+      <div className="px-6 py-4 flex items-center justify-between border-b border-slate-100 bg-white/80 backdrop-blur-md">
+        <div className="min-w-0">
+          <h4 className="text-xs font-black uppercase tracking-[0.2em] text-slate-900">Hive Intake</h4>
+          <p className="text-[9px] font-black uppercase tracking-widest text-amber-600 mt-0.5">
+            {summary.pending > 0 ? `${summary.pending} in flight • ${percent}%` : `${summary.done} secured${summary.failed ? ` • ${summary.failed} failed` : ''}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {summary.pending < items.length && (
+            <button onClick={onClearFinished} className="px-3 py-2 text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 hover:bg-slate-50 rounded-lg transition-colors">Clear</button>
+          )}
+          <button onClick={() => setCollapsed(!collapsed)} className="p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-50 rounded-lg transition-colors">
+            <ChevronDownIcon className={`w-4 h-4 transition-transform duration-300 ${collapsed ? 'rotate-180' : ''}`} />
+          </button>
+        </div>
+      </div>
+      {!collapsed && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-slate-50">
+          {items.map(item => {
+            const itemPercent = item.total ? Math.round((item.loaded / item.total) * 100) : 100;
+            return (
+              <li key={item.id} className="px-6 py-3.5 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-bold text-slate-900 truncate" title={item.file.name}>{item.file.name}</p>
+                    <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mt-0.5">
+                      <span className={statusColors[item.status]}>{statusLabels[item.status]}{item.version ? ` as v${item.version}` : ''}{item.deduplicated ? ' (deduplicated)' : ''}</span>
+                      {' • '}{item.status === 'writing' ? `${formatFileSize(item.loaded)} / ` : ''}{formatFileSize(item.total)}
+                    </p>
+                  </div>
+                  {item.status === 'done' && <CheckIcon className="w-4 h-4 text-green-500" />}
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <button onClick={() => onRetry(item.id)} title="Retry" className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"><RetryIcon className="w-3.5 h-3.5" /></button>
+                  )}
+                  {item.status === 'processing' ? null : item.status === 'queued' || item.status === 'writing' ? (
+                    <button onClick={() => onCancel(item.id)} title="Cancel" className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"><CloseIcon className="w-3.5 h-3.5" /></button>
+                  ) : (
+                    <button onClick={() => onDismiss(item.id)} title="Dismiss" className="p-2 text-slate-300 hover:text-slate-900 hover:bg-slate-50 rounded-lg transition-colors"><CloseIcon className="w-3.5 h-3.5" /></button>
+                  )}
+                </div>
+                {(item.status === 'writing' || item.status === 'queued') && (
+                  <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-500 rounded-full transition-all duration-200" style={{ width: `${itemPercent}%` }}></div>
+                  </div>
+                )}
+                {item.error && <p className="text-[9px] font-bold text-red-500 italic">{item.error}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadTray;
@@ -0,0 +1,81 @@
+
+import React, { useState } from 'react';
+import { BeeFile, BeeFileVersion } from '../types';
+import { getFileBlob, formatFileSize } from '../services/storageService';
+import { HiveLockedError } from '../services/cryptoService';
+import { getVersionNumber, sortVersions } from '../services/versionService';
+import { downloadBlob } from '../services/downloadService';
+import { EyeIcon, DownloadIcon, RestoreIcon, TrashIcon, HistoryIcon } from './Icons';
+
+interface VersionsPanelProps {
+  file: BeeFile;
+  versions: BeeFileVersion[];
+  versionLimit: number;
+  viewingId: string | null;
+  onView: (version: BeeFileVersion | null) => void;
+  onRestore: (version: BeeFileVersion) => Promise<void>;
+  onDelete: (version: BeeFileVersion) => void;
+  onAdjustLimit: () => void;
+}
+
+const actionClass = "p-1.5 text-slate-400 rounded-lg transition-colors disabled:opacity-40";
+
+const VersionsPanel: React.FC<VersionsPanelProps> = ({ file, versions, versionLimit, viewingId, onView, onRestore, onDelete, onAdjustLimit }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleDownload = async (version: BeeFileVersion) => {
+    setBusyId(version.id);
+    try {
+      downloadBlob(await getFileBlob(version), file.name);
+    } catch (err) {
+      if (err instanceof HiveLockedError) alert(err.message);
+      else console.error("Version download failed:", err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async (version: BeeFileVersion) => {
+    setBusyId(version.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describe = (size: number, uploadedAt: number, uploadedBy: string) =>
+    `${formatFileSize(size)} • ${new Date(uploadedAt).toLocaleString()}${uploadedBy ? ` • ${uploadedBy}` : ''}`;
+
+  return (
+    <div className="bg-white border border-slate-100 p-5 rounded-[2rem] shadow-sm space-y-3 shrink-0">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-[8px] font-black uppercase text-slate-400 tracking-widest"><HistoryIcon className="w-3 h-3" />Versions</span>
+        <button onClick={onAdjustLimit} className="text-[8px] font-black uppercase tracking-widest text-amber-600 hover:text-amber-700">Keep {versionLimit}</button>
+      </div>
+      <ul className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+        <li onClick={() => onView(null)} className={`px-3 py-2 rounded-xl cursor-pointer border ${viewingId === null ? 'bg-amber-50 border-amber-100' : 'border-transparent hover:bg-slate-50'}`}>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-900">v{getVersionNumber(file)} <span className="text-green-600">Current</span></p>
+          <p className="text-[9px] font-bold text-slate-400 truncate">{describe(file.size, file.uploadedAt ?? file.lastModified, file.uploadedBy ?? '')}</p>
+        </li>
+        {sortVersions(versions).map(version => (
+          <li key={version.id} className={`px-3 py-2 rounded-xl border ${viewingId === version.id ? 'bg-amber-50 border-amber-100' : 'border-transparent hover:bg-slate-50'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-900">v{version.version}</p>
+              <div className="flex items-center">
+                <button onClick={() => onView(version)} title="Preview" className={`${actionClass} hover:text-amber-600 hover:bg-amber-50`}><EyeIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleDownload(version)} disabled={busyId === version.id} title="Download" className={`${actionClass} hover:text-amber-600 hover:bg-amber-50`}><DownloadIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => handleRestore(version)} disabled={busyId === version.id} title="Restore as current" className={`${actionClass} hover:text-amber-600 hover:bg-amber-50`}><RestoreIcon className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onDelete(version)} disabled={busyId === version.id} title="Delete version" className={`${actionClass} hover:text-red-500 hover:bg-red-50`}><TrashIcon className="w-3.5 h-3.5" /></button>
+              </div>
+            </div>
+            <p className="text-[9px] font-bold text-slate-400 truncate">{describe(version.size, version.uploadedAt, version.uploadedBy)}</p>
+          </li>
+        ))}
+      </ul>
+      {versions.length === 0 && <p className="text-[9px] font-bold text-slate-300 italic">Upload a file with the same name here to add a version.</p>}
+    </div>
+  );
+};
+
+export default VersionsPanel;
@@ -0,0 +1,46 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { Route, HiveLocation, DEFAULT_LOCATION, parseRoute, formatRoute } from '../services/routeService';
+
+export interface NavigateOptions {
+  replace?: boolean; // Rewrite the current history entry instead of adding one
+  state?: unknown; // Stored with the entry, readable as history.state once it is current
+}
+
+const ROOT: Route = { page: 'hive', location: DEFAULT_LOCATION };
+
+const currentUrl = () => window.location.pathname + window.location.search;
+
+const readRoute = (): Route => parseRoute(window.location.pathname, window.location.search) || ROOT;
+
+// The route lives in the address bar and follows back and forward. Paths that
+// match nothing are rewritten to the hive root.
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(readRoute);
+
+  useEffect(() => {
+    if (!parseRoute(window.location.pathname, window.location.search)) {
+      window.history.replaceState(null, '', formatRoute(ROOT, window.location.search));
+    }
+    const handlePopState = () => setRoute(readRoute());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Takes a route, or an in-app URL such as a ?next= target
+  const navigate = useCallback((to: Route | string, { replace = false, state = null }: NavigateOptions = {}) => {
+    const url = typeof to === 'string' ? to : formatRoute(to, window.location.search);
+    if (url !== currentUrl()) window.history[replace ? 'replaceState' : 'pushState'](state, '', url);
+    setRoute(readRoute());
+  }, []);
+
+  // Patches the hive location as the address bar has it now rather than as of the
+  // last render, so it is safe to call after an await
+  const updateLocation = useCallback((patch: Partial<HiveLocation> | ((location: HiveLocation) => Partial<HiveLocation>), options?: NavigateOptions) => {
+    const current = readRoute();
+    const location = current.page === 'hive' ? current.location : DEFAULT_LOCATION;
+    navigate({ page: 'hive', location: { ...location, ...(typeof patch === 'function' ? patch(location) : patch) } }, options);
+  }, [navigate]);
+
+  return { route, navigate, updateLocation };
+};
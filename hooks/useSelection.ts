@@ -0,0 +1,46 @@
+
+import { useState, useCallback, useMemo } from 'react';
+
+export interface SelectModifiers {
+  range: boolean; // Shift: everything between the anchor and the clicked item
+  toggle: boolean; // Ctrl or Cmd: flip one item, keeping the rest
+}
+
+// Checkbox-style selection over an ordered list of ids. Ids that drop out of
+// the list (filtered away, deleted) fall out of the selection too.
+export const useSelection = (orderedIds: string[]) => {
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [anchor, setAnchor] = useState<string | null>(null);
+
+  const selected = useMemo(() => {
+    const visible = new Set(orderedIds);
+    return new Set<string>([...picked].filter(id => visible.has(id)));
+  }, [picked, orderedIds]);
+
+  const select = useCallback((id: string, { range, toggle }: SelectModifiers) => {
+    const from = anchor ? orderedIds.indexOf(anchor) : -1;
+    const to = orderedIds.indexOf(id);
+    if (range && from >= 0 && to >= 0) {
+      const span = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      // A plain shift-click replaces the selection with the span; with Ctrl it extends it
+      setPicked(prev => new Set([...(toggle ? prev : []), ...span]));
+      return;
+    }
+    setPicked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setAnchor(id);
+  }, [anchor, orderedIds]);
+
+  const selectAll = useCallback(() => setPicked(new Set(orderedIds)), [orderedIds]);
+
+  const clear = useCallback(() => {
+    setPicked(new Set());
+    setAnchor(null);
+  }, []);
+
+  return { selected, select, selectAll, clear };
+};
@@ -0,0 +1,185 @@
+
+import { useState, useRef, useMemo, useCallback } from 'react';
+import { BeeFile, StorageStatus, UploadItem, UploadSummary } from '../types';
+import { saveFileBlob, detectCategory, formatFileSize, getUploadLimit } from '../services/storageService';
+import { getVersionLimit } from '../services/versionService';
+import { processStoredFile } from '../services/processingService';
+import { runJob } from '../services/workerPool';
+
+const PROGRESS_INTERVAL_MS = 100;
+const SUCCESS_LINGER_MS = 3000;
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+const isInFlight = (status: UploadItem['status']) => status === 'queued' || status === 'writing' || status === 'processing';
+
+// getRemainingBytes reports the free quota, excluding anything still in the queue
+export const useUploadQueue = (onStored: (file: BeeFile, superseded: boolean) => void, getRemainingBytes: () => number) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [settled, setSettled] = useState(false);
+  const itemsRef = useRef<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const pumping = useRef(false);
+  const onStoredRef = useRef(onStored);
+  onStoredRef.current = onStored;
+  const getRemainingRef = useRef(getRemainingBytes);
+  getRemainingRef.current = getRemainingBytes;
+
+  const commit = (next: UploadItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const patch = (id: string, changes: Partial<UploadItem>) => {
+    commit(itemsRef.current.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Stored files are reserved too until they reach the hive's file list
+  const pendingBytes = (items: UploadItem[]) => items
+    .filter(i => isInFlight(i.status))
+    .reduce((acc, i) => acc + i.total, 0);
+
+  // Returns why the file cannot be admitted, or undefined when it fits
+  const admissionError = (file: File, ownerId: string, alreadyPending: number): string | undefined => {
+    const limit = getUploadLimit(ownerId);
+    if (file.size > limit) return `Exceeds the ${formatFileSize(limit)} file limit`;
+    const free = getRemainingRef.current() - alreadyPending;
+    if (file.size > free) return `Exceeds your hive quota (${formatFileSize(Math.max(free, 0))} free)`;
+    return undefined;
+  };
+
+  const processItem = async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    patch(item.id, { status: 'writing', loaded: 0, error: undefined });
+
+    const { file } = item;
+    // Files the browser couldn't name are recognised by their leading bytes
+    const sniffed = file.type ? null : await runJob('sniffType', { blob: file }, { priority: 'high', signal: controller.signal }).catch(() => null);
+    const type = file.type || sniffed || 'application/octet-stream';
+    const record: Omit<BeeFile, 'blobId' | 'hash' | 'encrypted' | 'version'> = {
+      id: item.id,
+      name: file.name,
+      type,
+      size: file.size,
+      lastModified: file.lastModified,
+      ownerId: item.ownerId,
+      category: detectCategory(type),
+      parentId: item.parentId,
+      uploadedAt: Date.now(),
+      uploadedBy: item.uploadedBy
+    };
+
+    let lastReport = 0;
+    try {
+      const { file: beeFile, deduplicated, superseded } = await saveFileBlob(record, file, {
+        signal: controller.signal,
+        asNewVersion: true,
+        maxVersions: getVersionLimit(item.ownerId),
+        onProgress: loaded => {
+          const now = Date.now();
+          if (now - lastReport < PROGRESS_INTERVAL_MS && loaded < file.size) return;
+          lastReport = now;
+          patch(item.id, { loaded });
+        }
+      });
+      // Once written the upload can no longer be cancelled; indexing and thumbnailing
+      // run in the worker pool, and a failure there only costs search recall or a preview
+      patch(item.id, { status: 'processing', loaded: file.size });
+      await processStoredFile(beeFile, file, { deduplicated }).catch(err => console.error("Processing failed:", err));
+      patch(item.id, { status: 'done', loaded: file.size, deduplicated, ...(superseded ? { version: beeFile.version } : {}) });
+      onStoredRef.current(beeFile, superseded);
+    } catch (err) {
+      if (isAbort(err)) {
+        patch(item.id, { status: 'cancelled' });
+      } else {
+        console.error(err);
+        patch(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Write failed' });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  };
+
+  const pump = async () => {
+    if (pumping.current) return;
+    pumping.current = true;
+    setSettled(false);
+    let next: UploadItem | undefined;
+    while ((next = itemsRef.current.find(item => item.status === 'queued'))) {
+      await processItem(next);
+    }
+    pumping.current = false;
+    setSettled(true);
+    setTimeout(() => setSettled(false), SUCCESS_LINGER_MS);
+  };
+
+  const enqueue = useCallback((fileList: FileList | File[], ownerId: string, parentId: string | null, uploadedBy: string) => {
+    let reserved = pendingBytes(itemsRef.current);
+    const added: UploadItem[] = Array.from(fileList).map(file => {
+      const error = admissionError(file, ownerId, reserved);
+      if (!error) reserved += file.size;
+      return {
+        id: Math.random().toString(36).substring(7),
+        file,
+        ownerId,
+        parentId,
+        uploadedBy,
+        status: error ? 'failed' : 'queued',
+        loaded: 0,
+        total: file.size,
+        error
+      };
+    });
+    commit([...itemsRef.current, ...added]);
+    pump();
+    return added.filter(item => item.status === 'failed');
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return;
+    if (item.status === 'queued') patch(id, { status: 'cancelled' });
+    else if (item.status === 'writing') controllers.current.get(id)?.abort();
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+    const error = admissionError(item.file, item.ownerId, pendingBytes(itemsRef.current));
+    if (error) {
+      patch(id, { status: 'failed', error });
+      return;
+    }
+    patch(id, { status: 'queued', loaded: 0, error: undefined });
+    pump();
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    commit(itemsRef.current.filter(i => i.id !== id || isInFlight(i.status)));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    commit(itemsRef.current.filter(i => isInFlight(i.status)));
+  }, []);
+
+  const summary = useMemo<UploadSummary>(() => {
+    const live = items.filter(i => i.status !== 'cancelled');
+    const pending = live.filter(i => isInFlight(i.status)).length;
+    const failed = live.filter(i => i.status === 'failed').length;
+    const status = pending > 0 ? StorageStatus.UPLOADING
+      : failed > 0 ? StorageStatus.ERROR
+      : settled && live.length > 0 ? StorageStatus.SUCCESS
+      : StorageStatus.IDLE;
+    return {
+      status,
+      loaded: live.reduce((acc, i) => acc + i.loaded, 0),
+      total: live.reduce((acc, i) => acc + i.total, 0),
+      done: live.filter(i => i.status === 'done').length,
+      failed,
+      pending
+    };
+  }, [items, settled]);
+
+  return { items, summary, enqueue, cancel, retry, dismiss, clearFinished };
+};
@@ -0,0 +1,110 @@
+
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+
+export interface VirtualGridOptions {
+  minColumnWidth: number; // Columns are added while each can stay at least this wide
+  maxColumns: number;
+  gap: number; // Pixels between rows and between columns, matching the CSS
+  estimatedRowHeight: number; // Stands in for rows that haven't been on screen yet
+  overscan?: number; // Rows kept mounted beyond each edge of the viewport
+}
+
+export interface VirtualRow {
+  index: number;
+  start: number; // First item in the row
+  end: number; // One past the last item
+}
+
+// Windowed rendering for items laid out in rows within the page's own scroll.
+// Only rows near the viewport are mounted. Rows are measured as they render,
+// so they may differ in height; spacers stand in for everything else.
+export const useVirtualGrid = (itemCount: number, { minColumnWidth, maxColumns, gap, estimatedRowHeight, overscan = 2 }: VirtualGridOptions) => {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [width, setWidth] = useState(0);
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const [measured, setMeasured] = useState(0);
+  const heights = useRef<number[]>([]);
+
+  const columns = Math.max(1, Math.min(maxColumns, Math.floor((width + gap) / (minColumnWidth + gap)) || 1));
+  const rowCount = Math.ceil(itemCount / columns);
+  const heightOf = (row: number) => heights.current[row] ?? estimatedRowHeight;
+
+  // Heights were measured at the old column count
+  useEffect(() => {
+    heights.current = [];
+  }, [columns]);
+
+  useEffect(() => {
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const recompute = useCallback(() => {
+    if (!container) return;
+    const top = -container.getBoundingClientRect().top;
+    const bottom = top + window.innerHeight;
+    let y = 0;
+    let first = 0;
+    while (first < rowCount && y + heightOf(first) < top) y += heightOf(first++) + gap;
+    let last = first;
+    while (last < rowCount && y < bottom) y += heightOf(last++) + gap;
+    const next: [number, number] = [Math.max(0, first - overscan), Math.min(rowCount, last + overscan)];
+    setRange(prev => (prev[0] === next[0] && prev[1] === next[1] ? prev : next));
+  }, [container, rowCount, gap, overscan, estimatedRowHeight]);
+
+  useEffect(() => {
+    recompute();
+    let frame = 0;
+    const schedule = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        recompute();
+      });
+    };
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [recompute, measured]);
+
+  const rowObserver = useMemo(() => new ResizeObserver(entries => {
+    let changed = false;
+    entries.forEach(entry => {
+      const row = Number((entry.target as HTMLElement).dataset.row);
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+      if (heights.current[row] !== height) {
+        heights.current[row] = height;
+        changed = true;
+      }
+    });
+    if (changed) setMeasured(m => m + 1);
+  }), []);
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  // Attach to every rendered row together with data-row={row.index}
+  const observeRow = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    rowObserver.observe(el);
+    return () => rowObserver.unobserve(el);
+  }, [rowObserver]);
+
+  const [first, last] = [Math.min(range[0], rowCount), Math.min(range[1], rowCount)];
+  let padTop = 0;
+  for (let row = 0; row < first; row++) padTop += heightOf(row) + gap;
+  let padBottom = 0;
+  for (let row = last; row < rowCount; row++) padBottom += heightOf(row) + gap;
+
+  const rows: VirtualRow[] = [];
+  for (let row = first; row < last; row++) {
+    rows.push({ index: row, start: row * columns, end: Math.min(itemCount, (row + 1) * columns) });
+  }
+
+  return { setContainer, observeRow, columns, rows, padTop, padBottom };
+};
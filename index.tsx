@@ -1,7 +1,32 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ShareViewer from './components/ShareViewer';
+import { getShareTokenFromUrl } from './services/shareService';
+import { registerServiceWorker } from './services/pwaService';
+import '@fontsource/ubuntu/300.css';
+import '@fontsource/ubuntu/300-italic.css';
+import '@fontsource/ubuntu/400.css';
+import '@fontsource/ubuntu/400-italic.css';
+import '@fontsource/ubuntu/500.css';
+import '@fontsource/ubuntu/500-italic.css';
+import '@fontsource/ubuntu/700.css';
+import '@fontsource/ubuntu/700-italic.css';
+import './index.css';
+
+// Share links open the read-only viewer instead of the signed-in app
+const Root: React.FC = () => {
+  const [shareToken, setShareToken] = useState(getShareTokenFromUrl);
+
+  useEffect(() => {
+    const handleHashChange = () => setShareToken(getShareTokenFromUrl());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  return shareToken ? <ShareViewer key={shareToken} token={shareToken} /> : <App />;
+};
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +36,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
+
+registerServiceWorker();
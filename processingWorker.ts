@@ -0,0 +1,49 @@
+/// <reference lib="webworker" />
+import { runJobHandler } from './services/jobHandlers';
+import { SerializedError, WorkerRequest, WorkerResponse } from './services/workerProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// One of the pool's workers (services/workerPool.ts). It runs jobs as they
+// arrive; the pool sends one at a time, so a worker is either idle or busy.
+
+// Progress arrives per chunk; only post every so often
+const PROGRESS_INTERVAL_MS = 100;
+
+const running = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const serializeError = (err: unknown): SerializedError => err instanceof Error || err instanceof DOMException
+  ? { name: err.name, message: err.message }
+  : { name: 'Error', message: String(err) };
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'cancel') {
+    running.get(message.jobId)?.abort();
+    return;
+  }
+  const { jobId, kind, input } = message;
+  const controller = new AbortController();
+  running.set(jobId, controller);
+  let lastReport = 0;
+  try {
+    const output = await runJobHandler(kind, input, {
+      signal: controller.signal,
+      progress: loaded => {
+        const now = Date.now();
+        if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+        lastReport = now;
+        post({ type: 'progress', jobId, loaded });
+      }
+    });
+    post({ type: 'done', jobId, output });
+  } catch (err) {
+    post({ type: 'failed', jobId, error: serializeError(err) });
+  } finally {
+    running.delete(jobId);
+  }
+};
+
+post({ type: 'ready' });
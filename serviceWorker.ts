@@ -0,0 +1,126 @@
+/// <reference lib="webworker" />
+import { createIndexedDbBackend } from './services/indexedDbBackend';
+import { StoredBlob, isBlobRef } from './services/storageBackend';
+import { readOpfsFile } from './services/opfsStore';
+import { BeeFile } from './types';
+
+// Built on its own by the service worker plugin in vite.config.ts, which fills these in
+declare const __PRECACHE_URLS__: string[];
+declare const __CACHE_VERSION__: string;
+declare const self: ServiceWorkerGlobalScope;
+
+// The app shell is precached, so the hive opens without a network. Stored
+// content is served from IndexedDB (and OPFS) at /blob/:blobId with HTTP range
+// support, which lets <video> and <audio> seek without reading the whole file.
+
+const CACHE_NAME = `bee-shell-${__CACHE_VERSION__}`;
+const SHELL_URL = '/index.html';
+const BLOB_ROUTE = /^\/blob\/([^/]+)$/;
+
+const backend = createIndexedDbBackend();
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(__PRECACHE_URLS__)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('bee-shell-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+    // Take over pages opened before this worker, so their previews can stream straight away
+    await self.clients.claim();
+  })());
+});
+
+// The type comes from a record pointing at the blob; content addressing makes them all the same bytes
+const readBlob = (blobId: string) => backend.transaction(['blobs', 'metadata', 'versions'], 'readonly', async tx => {
+  const stored = await tx.getBlob(blobId);
+  const [record] = [
+    ...await tx.getAll<Pick<BeeFile, 'type' | 'encrypted'>>('metadata', blobId, 'blobId'),
+    ...await tx.getAll<Pick<BeeFile, 'type' | 'encrypted'>>('versions', blobId, 'blobId')
+  ];
+  return { stored, record };
+});
+
+const resolve = (stored: StoredBlob, type: string): Promise<Blob> | Blob => {
+  return isBlobRef(stored) ? readOpfsFile(stored, type) : stored.slice(0, stored.size, type);
+};
+
+// A single "bytes=" range as inclusive offsets, or null to send everything. Multiple
+// ranges are allowed to come back whole. Throws when the range can't be satisfied.
+const parseRange = (header: string | null, size: number): [number, number] | null => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // bytes=-N is the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start > end || start >= size) throw new RangeError(`Range ${header} is outside ${size} bytes`);
+  return [start, end];
+};
+
+const serveBlob = async (request: Request, blobId: string): Promise<Response> => {
+  const { stored, record } = await readBlob(blobId);
+  if (!stored) return new Response('Not in the hive', { status: 404 });
+  // Sealed content needs the key, which never leaves the page
+  if (record?.encrypted) return new Response('This content is encrypted', { status: 403 });
+  const type = record?.type || 'application/octet-stream';
+  const blob = await resolve(stored, type);
+  const headers = new Headers({ 'Content-Type': type, 'Accept-Ranges': 'bytes', 'Cache-Control': 'no-store' });
+  let range: [number, number] | null;
+  try {
+    range = parseRange(request.headers.get('Range'), blob.size);
+  } catch {
+    headers.set('Content-Range', `bytes */${blob.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+  if (!range) {
+    headers.set('Content-Length', String(blob.size));
+    return new Response(blob, { status: 200, headers });
+  }
+  const [start, end] = range;
+  headers.set('Content-Range', `bytes ${start}-${end}/${blob.size}`);
+  headers.set('Content-Length', String(end - start + 1));
+  // Slicing a disk-backed blob reads only the requested bytes
+  return new Response(blob.slice(start, end + 1, type), { status: 206, headers });
+};
+
+// Fresh from the network when online, the cached shell otherwise. Every route is the same page.
+const serveNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const shell = await caches.match(SHELL_URL);
+    if (shell) return shell;
+    throw err;
+  }
+};
+
+// Built assets are content-hashed, so a cached copy is never stale
+const serveAsset = async (request: Request): Promise<Response> => {
+  return (await caches.match(request)) || fetch(request);
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Cross-origin calls, such as to Gemini, go out untouched
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  const blob = url.pathname.match(BLOB_ROUTE);
+  if (blob) {
+    event.respondWith(serveBlob(request, decodeURIComponent(blob[1])).catch(err => {
+      console.error("Blob stream failed:", err);
+      return new Response('The hive could not be read', { status: 500 });
+    }));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(serveNavigation(request));
+  } else {
+    event.respondWith(serveAsset(request));
+  }
+});
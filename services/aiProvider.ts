@@ -0,0 +1,72 @@
+// The contract every model BeeAI can run on implements. aiService holds the
+// caching, rate limiting and checking of answers on top of it, so a provider
+// only has to turn a file description into an answer.
+
+export interface ClassificationInput {
+  name: string;
+  type: string;
+  size: number;
+  text?: string; // The start of text content
+  image?: { data: string; mimeType: string }; // A base64 preview, such as the thumbnail
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly needsNetwork: boolean;
+  // Resolves the answer as parsed JSON, which aiService checks before anything uses it.
+  // Rejects with an AiUnavailableError when the provider can't be reached right now.
+  classify: (input: ClassificationInput, signal: AbortSignal) => Promise<unknown>;
+}
+
+export const CLASSIFICATION_CATEGORIES = ['images', 'videos', 'documents', 'others'] as const;
+export const MAX_SUGGESTED_TAGS = 5;
+
+export type AiUnavailableReason = 'unconfigured' | 'offline' | 'timeout' | 'rateLimited' | 'failed';
+
+// BeeAI had no answer to give, as opposed to giving one that turned out unusable
+export class AiUnavailableError extends Error {
+  reason: AiUnavailableReason;
+
+  constructor(reason: AiUnavailableReason, message: string) {
+    super(message);
+    this.name = 'AiUnavailableError';
+    this.reason = reason;
+  }
+}
+
+export class UnknownAiProviderError extends Error {
+  constructor(name: string) {
+    super(`No AI provider named "${name}" is registered.`);
+    this.name = 'UnknownAiProviderError';
+  }
+}
+
+const factories = new Map<string, () => AIProvider>();
+let active: AIProvider | null | undefined;
+
+export const registerAiProvider = (name: string, factory: () => AIProvider) => {
+  factories.set(name, factory);
+};
+
+// ?ai=<name> in the URL wins (e.g. ?ai=local to work without a network), then
+// AI_PROVIDER from the build environment, then Gemini when it has a key
+export const getConfiguredProviderName = (): string | null => {
+  const fromUrl = typeof location !== 'undefined' ? new URLSearchParams(location.search).get('ai') : null;
+  return fromUrl || process.env.AI_PROVIDER || (process.env.API_KEY ? 'gemini' : null);
+};
+
+// Null when no provider is configured, which leaves BeeAI switched off
+export const getAiProvider = (): AIProvider | null => {
+  if (active !== undefined) return active;
+  const name = getConfiguredProviderName();
+  const factory = name ? factories.get(name) : null;
+  if (name && !factory) throw new UnknownAiProviderError(name);
+  active = factory ? factory() : null;
+  return active;
+};
+
+// Swaps the provider in use, e.g. the local stub in a test
+export const setAiProvider = (provider: AIProvider | null) => {
+  active = provider;
+};
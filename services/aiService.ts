@@ -0,0 +1,128 @@
+import { ClassificationSuggestion } from '../types';
+import { AIProvider, AiUnavailableError, CLASSIFICATION_CATEGORIES, ClassificationInput, MAX_SUGGESTED_TAGS, getAiProvider, registerAiProvider } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { createLocalAiProvider } from './localAiProvider';
+import { getAiCacheEntry, saveAiCacheEntry } from './storageService';
+import { normalizeTag } from './tagService';
+
+registerAiProvider('gemini', createGeminiProvider);
+registerAiProvider('local', createLocalAiProvider);
+
+export const LOCAL_PROVIDER = 'local';
+
+// Requests to networked providers are spread out to stay inside free-tier quotas
+const MAX_REQUESTS_PER_WINDOW = 10;
+const RATE_WINDOW_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const MAX_TITLE_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 280;
+
+export interface SuggestOptions {
+  signal?: AbortSignal;
+  fresh?: boolean; // Ask again even when an answer for this content is cached
+}
+
+const recentRequests: number[] = [];
+
+// A misconfigured provider leaves BeeAI off rather than breaking the page
+const resolveProvider = (): AIProvider | null => {
+  try {
+    return getAiProvider();
+  } catch (err) {
+    console.error("BeeAI is off:", err);
+    return null;
+  }
+};
+
+export const isAiAvailable = (): boolean => !!resolveProvider();
+
+// The stub's answers are placeholders, not a reading of the file
+export const isStubSuggestion = (suggestion: Pick<ClassificationSuggestion, 'provider'>): boolean => suggestion.provider === LOCAL_PROVIDER;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Waits for room in the sliding window, then takes it
+const acquireRequestSlot = async (signal?: AbortSignal) => {
+  while (true) {
+    signal?.throwIfAborted();
+    const now = Date.now();
+    while (recentRequests.length && recentRequests[0] <= now - RATE_WINDOW_MS) recentRequests.shift();
+    if (recentRequests.length < MAX_REQUESTS_PER_WINDOW) {
+      recentRequests.push(now);
+      return;
+    }
+    await wait(recentRequests[0] + RATE_WINDOW_MS - now, signal);
+  }
+};
+
+const clamp = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+// A response schema is a request, not a guarantee, so every answer is checked before it reaches the hive
+const toSuggestion = (raw: unknown, provider: AIProvider): ClassificationSuggestion => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const category = CLASSIFICATION_CATEGORIES.find(c => c === value.category);
+  if (!category) throw new Error(`BeeAI answered with an unknown category: ${String(value.category)}`);
+  const tags = Array.isArray(value.tags) ? value.tags.filter((t): t is string => typeof t === 'string').map(normalizeTag).filter(Boolean) : [];
+  return {
+    category,
+    tags: Array.from(new Set(tags)).slice(0, MAX_SUGGESTED_TAGS),
+    title: clamp(typeof value.title === 'string' ? value.title.trim() : '', MAX_TITLE_LENGTH),
+    description: clamp(typeof value.description === 'string' ? value.description.trim() : '', MAX_DESCRIPTION_LENGTH),
+    sensitive: value.sensitive === true,
+    provider: provider.name,
+    model: provider.model,
+  };
+};
+
+// The caller's signal cancels; running out of time is reported as BeeAI being unavailable
+const askWithTimeout = async (provider: AIProvider, input: ClassificationInput, signal?: AbortSignal): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new DOMException('BeeAI took too long to answer', 'TimeoutError'));
+  }, REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await provider.classify(input, controller.signal);
+  } catch (err) {
+    if (timedOut) throw new AiUnavailableError('timeout', `BeeAI took longer than ${REQUEST_TIMEOUT_MS / 1000}s to answer.`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Answers are cached per owner and content hash, and persisted, so the same bytes are only
+// sent once per provider and model. Content without a recorded hash is never cached.
+// Rejects with an AiUnavailableError when there is no answer to be had right now.
+export const suggestClassification = async (ownerId: string, hash: string | undefined, input: ClassificationInput, { signal, fresh = false }: SuggestOptions = {}): Promise<ClassificationSuggestion> => {
+  const provider = resolveProvider();
+  if (!provider) throw new AiUnavailableError('unconfigured', 'BeeAI is not configured for this hive.');
+  const cacheId = hash ? `${ownerId}:${provider.name}:${provider.model}:${hash}` : null;
+  if (cacheId && !fresh) {
+    const cached = await getAiCacheEntry(cacheId);
+    if (cached) return cached.suggestion;
+  }
+  if (provider.needsNetwork && typeof navigator !== 'undefined' && !navigator.onLine) {
+    throw new AiUnavailableError('offline', 'BeeAI needs a network connection.');
+  }
+  if (provider.needsNetwork) await acquireRequestSlot(signal);
+  const suggestion = toSuggestion(await askWithTimeout(provider, input, signal), provider);
+  if (cacheId) {
+    await saveAiCacheEntry({ id: cacheId, ownerId, suggestion, cachedAt: Date.now() }).catch(err => console.warn("BeeAI answer not cached:", err));
+  }
+  return suggestion;
+};
@@ -0,0 +1,209 @@
+
+import { ArchiveImportMode, ArchiveProgress, BeeFile, BeeFileVersion, BeeFolder } from '../types';
+import { getAllRecords, getFileBlob, getStoredBlob, putStoredBlob, releaseOrphanBlobs, importRecords } from './storageService';
+import { normalizeEmail } from './authService';
+import { ZipEntry, createZipWriter, readZipEntries, openEntry, crc32, ZipFormatError } from './zipService';
+
+const ARCHIVE_FORMAT = 'bee-hive-archive';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+const USERS_KEY = 'bee_users';
+
+// localStorage collections that travel with the hive, keyed by the field naming each entry's owner.
+// Sessions and login attempts are deliberately left behind.
+const PORTABLE_SETTINGS: [string, string][] = [
+  [USERS_KEY, 'id'],
+  ['bee_keyrings', 'userId'],
+  ['bee_quotas', 'userId'],
+  ['bee_trash_retention', 'userId'],
+  ['bee_version_limit', 'userId']
+];
+
+type SettingEntry = Record<string, unknown>;
+
+interface ManifestBlob {
+  id: string;
+  path: string; // Blob ids may contain ':', which not every unzip tool accepts in a name
+  size: number;
+}
+
+interface HiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  files: BeeFile[];
+  folders: BeeFolder[];
+  versions: BeeFileVersion[];
+  settings: Record<string, SettingEntry[]>;
+  blobs: ManifestBlob[];
+}
+
+export interface ImportResult {
+  files: number; // File records added
+  blobs: number; // Blobs written; deduplicated content is skipped
+  skippedUsers: number; // Accounts whose email already belongs to someone else here
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const readSetting = (key: string): SettingEntry[] => JSON.parse(localStorage.getItem(key) || '[]');
+
+// Writes a ZIP of manifest.json plus every stored blob. The returned Blob is
+// composed from the stored blobs by reference, so the hive is never copied into memory.
+export const exportHive = async (onProgress?: (progress: ArchiveProgress) => void): Promise<Blob> => {
+  const records = await getAllRecords();
+  const blobIds = Array.from(new Set([...records.files, ...records.versions].map(r => r.blobId)));
+  const blobs = await Promise.all(blobIds.map(getStoredBlob));
+  const total = blobs.reduce((acc, b) => acc + b.size, 0);
+  const manifestBlobs = blobIds.map((id, i) => ({ id, path: `blobs/${i}`, size: blobs[i].size }));
+
+  const zip = createZipWriter();
+  let done = 0;
+  for (let i = 0; i < blobs.length; i++) {
+    await zip.add(manifestBlobs[i].path, blobs[i], loaded => onProgress?.({ label: 'Packing', loaded: done + loaded, total }));
+    done += blobs[i].size;
+  }
+
+  const manifest: HiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    ...records,
+    settings: Object.fromEntries(PORTABLE_SETTINGS.map(([key]) => [key, readSetting(key)])),
+    blobs: manifestBlobs
+  };
+  await zip.add(MANIFEST_NAME, new Blob([JSON.stringify(manifest)], { type: 'application/json' }));
+  return zip.finish();
+};
+
+const parseManifest = (text: string): HiveManifest => {
+  let manifest: HiveManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new ArchiveError('The archive manifest is not valid JSON.');
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT) throw new ArchiveError('This ZIP is not a hive archive.');
+  if (manifest.version > ARCHIVE_VERSION) throw new ArchiveError('This archive was made by a newer version of the hive.');
+  const { files, folders, versions, blobs, settings } = manifest;
+  if (![files, folders, versions, blobs].every(Array.isArray) || !settings || typeof settings !== 'object') {
+    throw new ArchiveError('The archive manifest is incomplete.');
+  }
+  return manifest;
+};
+
+// Accounts whose email is already taken here by a different id are left out, along with everything they own
+const findSkippedUsers = (incoming: SettingEntry[]): Set<string> => {
+  const existing = readSetting(USERS_KEY);
+  const emailOwners = new Map(existing.map(u => [normalizeEmail(String(u.email)), u.id]));
+  return new Set(incoming
+    .filter(u => {
+      const owner = emailOwners.get(normalizeEmail(String(u.email)));
+      return owner !== undefined && owner !== u.id;
+    })
+    .map(u => String(u.id)));
+};
+
+const applySettings = (settings: Record<string, SettingEntry[]>, mode: ArchiveImportMode, skipped: Set<string>) => {
+  PORTABLE_SETTINGS.forEach(([key, ownerField]) => {
+    const incoming = (settings[key] || []).filter(entry => !skipped.has(String(entry[ownerField])));
+    if (mode === 'replace') {
+      localStorage.setItem(key, JSON.stringify(incoming));
+      return;
+    }
+    const current = readSetting(key);
+    const known = new Set(current.map(entry => entry[ownerField]));
+    localStorage.setItem(key, JSON.stringify([...current, ...incoming.filter(entry => !known.has(entry[ownerField]))]));
+  });
+};
+
+// Blobs are streamed from the archive into IndexedDB one at a time and checked
+// against their CRC first. Records and settings are only applied once every
+// blob has landed, so a failed import leaves the existing hive untouched.
+export const importHive = async (archive: Blob, mode: ArchiveImportMode, onProgress?: (progress: ArchiveProgress) => void): Promise<ImportResult> => {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZipEntries(archive);
+  } catch (err) {
+    if (err instanceof ZipFormatError) throw new ArchiveError(err.message);
+    throw err;
+  }
+  const byName = new Map(entries.map(e => [e.name, e]));
+  const manifestEntry = byName.get(MANIFEST_NAME);
+  if (!manifestEntry) throw new ArchiveError('The archive has no manifest.');
+  const manifest = parseManifest(await (await openEntry(archive, manifestEntry)).text());
+
+  const skipped = mode === 'merge' ? findSkippedUsers(manifest.settings[USERS_KEY] || []) : new Set<string>();
+  const keepOwner = (r: { ownerId: string }) => !skipped.has(r.ownerId);
+  const records = {
+    files: manifest.files.filter(keepOwner),
+    folders: manifest.folders.filter(keepOwner),
+    versions: manifest.versions.filter(keepOwner)
+  };
+  const needed = new Set([...records.files, ...records.versions].map(r => r.blobId));
+  const blobs = manifest.blobs.filter(b => needed.has(b.id));
+  const missing = blobs.find(b => !byName.has(b.path));
+  if (missing) throw new ArchiveError(`The archive is missing ${missing.path}.`);
+
+  const total = blobs.reduce((acc, b) => acc + b.size, 0);
+  const written: string[] = [];
+  let done = 0;
+  try {
+    for (const blob of blobs) {
+      const entry = byName.get(blob.path)!;
+      const data = await openEntry(archive, entry);
+      const crc = await crc32(data, loaded => onProgress?.({ label: 'Verifying', loaded: done + loaded, total }));
+      if (crc !== entry.crc) throw new ArchiveError(`${blob.path} is corrupt (checksum mismatch).`);
+      if (await putStoredBlob(blob.id, data)) written.push(blob.id);
+      done += blob.size;
+      onProgress?.({ label: 'Importing', loaded: done, total });
+    }
+    const files = await importRecords(records, mode);
+    applySettings(manifest.settings, mode, skipped);
+    return { files, blobs: written.length, skippedUsers: skipped.size };
+  } catch (err) {
+    await releaseOrphanBlobs(written).catch(cleanupErr => console.error("Import cleanup error:", cleanupErr));
+    throw err;
+  }
+};
+
+export interface FilesZipResult {
+  archive: Blob;
+  skipped: string[]; // Names of files that could not be read, e.g. while the hive is locked
+}
+
+// Same-named files from different cells get a numbered suffix, as a download folder would
+const uniqueName = (name: string, taken: Set<string>) => {
+  const dot = name.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Plain ZIP of the files' current content, decrypted, with no manifest: for people, not for importHive
+export const zipFiles = async (files: BeeFile[], onProgress?: (progress: ArchiveProgress) => void): Promise<FilesZipResult> => {
+  const zip = createZipWriter();
+  const taken = new Set<string>();
+  const skipped: string[] = [];
+  const total = files.reduce((acc, f) => acc + f.size, 0);
+  let done = 0;
+  for (const file of files) {
+    try {
+      const data = await getFileBlob(file);
+      await zip.add(uniqueName(file.name, taken), data, loaded => onProgress?.({ label: 'Zipping', loaded: done + loaded, total }));
+    } catch (err) {
+      console.error(`Zipping ${file.name} failed:`, err);
+      skipped.push(file.name);
+    }
+    done += file.size;
+    onProgress?.({ label: 'Zipping', loaded: done, total });
+  }
+  return { archive: zip.finish(), skipped };
+};
@@ -0,0 +1,212 @@
+
+import { User } from '../types';
+
+const USERS_KEY = 'bee_users';
+const SESSIONS_KEY = 'bee_sessions';
+const SESSION_TOKEN_KEY = 'bee_session';
+const ATTEMPTS_KEY = 'bee_login_attempts';
+const LEGACY_SESSION_KEY = 'bee_user';
+
+const HASH_ITERATIONS = 600000;
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const SESSION_IDLE_MS = 30 * 60 * 1000;
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Failures allowed before backoff kicks in, then the wait doubles per failure up to the cap
+const FREE_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+interface StoredUser extends User {
+  passwordHash?: string;
+  salt?: string;
+  iterations?: number;
+  password?: string; // Plaintext from before hashing; replaced on the next successful login
+}
+
+interface Session {
+  token: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  lastActiveAt: number;
+}
+
+interface LoginAttempts {
+  email: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export type AuthErrorCode = 'invalid' | 'exists' | 'throttled';
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+  retryAfterMs: number;
+
+  constructor(code: AuthErrorCode, message: string, retryAfterMs = 0) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const read = <T>(key: string): T[] => JSON.parse(localStorage.getItem(key) || '[]');
+const write = <T>(key: string, items: T[]) => localStorage.setItem(key, JSON.stringify(items));
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/.{2}/g) || [], byte => parseInt(byte, 16));
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const toPublicUser = ({ id, email, name }: StoredUser): User => ({ id, email, name });
+
+const hashPassword = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return toHex(bits);
+};
+
+export interface PasswordCredentials {
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+}
+
+// Also protects share links, which store their passwords the same way accounts do
+export const createCredentials = async (password: string): Promise<PasswordCredentials> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { passwordHash: await hashPassword(password, salt, HASH_ITERATIONS), salt: toHex(salt), iterations: HASH_ITERATIONS };
+};
+
+// Compares without early exit so timing does not reveal the matching prefix
+const constantTimeEqual = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+export const checkCredentials = async ({ passwordHash, salt, iterations }: PasswordCredentials, password: string): Promise<boolean> => {
+  return constantTimeEqual(await hashPassword(password, fromHex(salt), iterations), passwordHash);
+};
+
+const checkPassword = async (user: StoredUser, password: string): Promise<boolean> => {
+  if (user.passwordHash && user.salt && user.iterations) {
+    return checkCredentials({ passwordHash: user.passwordHash, salt: user.salt, iterations: user.iterations }, password);
+  }
+  return user.password !== undefined && constantTimeEqual(user.password, password);
+};
+
+const saveUser = (user: StoredUser) => {
+  write(USERS_KEY, read<StoredUser>(USERS_KEY).map(u => u.id === user.id ? user : u));
+};
+
+const getAttempts = (email: string): LoginAttempts => {
+  return read<LoginAttempts>(ATTEMPTS_KEY).find(a => a.email === email) || { email, failures: 0, lockedUntil: 0 };
+};
+
+const saveAttempts = (attempts: LoginAttempts | null, email: string) => {
+  const others = read<LoginAttempts>(ATTEMPTS_KEY).filter(a => a.email !== email);
+  write(ATTEMPTS_KEY, attempts ? [...others, attempts] : others);
+};
+
+const isSessionLive = (session: Session, now: number) => now < session.expiresAt && now - session.lastActiveAt < SESSION_IDLE_MS;
+
+const startSession = (userId: string): void => {
+  const now = Date.now();
+  const session: Session = {
+    token: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    userId,
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+    lastActiveAt: now
+  };
+  // Prune expired sessions while we're writing anyway
+  const live = read<Session>(SESSIONS_KEY).filter(s => isSessionLive(s, now));
+  write(SESSIONS_KEY, [...live, session]);
+  localStorage.setItem(SESSION_TOKEN_KEY, session.token);
+};
+
+export const signUp = async (name: string, email: string, password: string): Promise<User> => {
+  const users = read<StoredUser>(USERS_KEY);
+  const normalized = normalizeEmail(email);
+  if (users.some(u => normalizeEmail(u.email) === normalized)) {
+    throw new AuthError('exists', 'Identity already verified in this sector.');
+  }
+  const user: StoredUser = { id: Math.random().toString(36).substring(2, 9), email: email.trim(), name, ...(await createCredentials(password)) };
+  write(USERS_KEY, [...users, user]);
+  startSession(user.id);
+  return toPublicUser(user);
+};
+
+export const logIn = async (email: string, password: string): Promise<User> => {
+  const normalized = normalizeEmail(email);
+  const attempts = getAttempts(normalized);
+  const now = Date.now();
+  if (attempts.lockedUntil > now) {
+    const wait = attempts.lockedUntil - now;
+    throw new AuthError('throttled', `Too many attempts. Retry in ${Math.ceil(wait / 1000)}s.`, wait);
+  }
+
+  const user = read<StoredUser>(USERS_KEY).find(u => normalizeEmail(u.email) === normalized);
+  if (!user || !(await checkPassword(user, password))) {
+    const failures = attempts.failures + 1;
+    const backoff = failures > FREE_ATTEMPTS ? Math.min(BACKOFF_BASE_MS * 2 ** (failures - FREE_ATTEMPTS - 1), BACKOFF_MAX_MS) : 0;
+    saveAttempts({ email: normalized, failures, lockedUntil: backoff ? Date.now() + backoff : 0 }, normalized);
+    const message = 'Access denied. Lattice credentials mismatch.';
+    throw new AuthError('invalid', backoff ? `${message} Retry in ${Math.ceil(backoff / 1000)}s.` : message, backoff);
+  }
+
+  saveAttempts(null, normalized);
+  if (!user.passwordHash) {
+    const { password: _plaintext, ...rest } = user;
+    saveUser({ ...rest, ...(await createCredentials(password)) });
+  }
+  startSession(user.id);
+  return toPublicUser(user);
+};
+
+export const verifyPassword = async (userId: string, password: string): Promise<boolean> => {
+  const user = read<StoredUser>(USERS_KEY).find(u => u.id === userId);
+  return !!user && checkPassword(user, password);
+};
+
+export const changePassword = async (userId: string, currentPassword: string, newPassword: string): Promise<void> => {
+  const user = read<StoredUser>(USERS_KEY).find(u => u.id === userId);
+  if (!user || !(await checkPassword(user, currentPassword))) {
+    throw new AuthError('invalid', 'Current password mismatch.');
+  }
+  const { password: _plaintext, ...rest } = user;
+  saveUser({ ...rest, ...(await createCredentials(newPassword)) });
+};
+
+// Returns the signed-in user, or null once the session has expired or gone idle
+export const getSessionUser = (): User | null => {
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  if (!token) return null;
+  const session = read<Session>(SESSIONS_KEY).find(s => s.token === token);
+  if (!session || !isSessionLive(session, Date.now())) {
+    endSession();
+    return null;
+  }
+  const user = read<StoredUser>(USERS_KEY).find(u => u.id === session.userId);
+  return user ? toPublicUser(user) : null;
+};
+
+// Records activity for the idle timeout; writes at most once a minute
+export const touchSession = () => {
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  const now = Date.now();
+  const sessions = read<Session>(SESSIONS_KEY);
+  const session = sessions.find(s => s.token === token);
+  if (!session || !isSessionLive(session, now) || now - session.lastActiveAt < TOUCH_INTERVAL_MS) return;
+  write(SESSIONS_KEY, sessions.map(s => s.token === token ? { ...s, lastActiveAt: now } : s));
+};
+
+export const endSession = () => {
+  const token = localStorage.getItem(SESSION_TOKEN_KEY);
+  write(SESSIONS_KEY, read<Session>(SESSIONS_KEY).filter(s => s.token !== token));
+  localStorage.removeItem(SESSION_TOKEN_KEY);
+};
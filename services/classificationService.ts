@@ -0,0 +1,98 @@
+import { BeeFile, FileClassification } from '../types';
+import { getFileBlob, getThumbnailRecords, openThumbnail, updateFiles } from './storageService';
+import { isEncryptionEnabled } from './cryptoService';
+import { isTextFile } from './searchService';
+import { isAiAvailable, suggestClassification, SuggestOptions } from './aiService';
+import { addTag } from './tagService';
+import { JobOptions } from './workerPool';
+
+// BeeAI reads new uploads in the background and leaves a suggestion on the
+// record. Nothing about the file changes until its owner accepts, possibly after
+// editing it; a dismissed suggestion stays recorded so it isn't offered again.
+
+export type ClassificationListener = (files: BeeFile[]) => void;
+
+// Enough of the start of a text file to tell what it is about
+const TEXT_SNIPPET_BYTES = 16 * 1024;
+
+const listeners = new Set<ClassificationListener>();
+
+// Sealed content never leaves the browser, and neither does anything from a hive being sealed
+export const canClassify = (file: BeeFile): boolean => isAiAvailable() && !file.encrypted && !isEncryptionEnabled(file.ownerId);
+
+// The suggestion for the file's current content; one left over from before a re-upload describes other bytes
+export const getClassification = (file: BeeFile): FileClassification | undefined => {
+  return file.classification?.blobId === file.blobId ? file.classification : undefined;
+};
+
+export const isAwaitingReview = (file: BeeFile): boolean => getClassification(file)?.status === 'suggested';
+
+// A flag its owner dismissed no longer counts
+export const isFlaggedSensitive = (file: BeeFile): boolean => {
+  const classification = getClassification(file);
+  return !!classification?.sensitive && classification.status !== 'dismissed';
+};
+
+// Results are written from the background, so the grid hears about them here rather than from a caller.
+// Other tabs get them over the usual hive sync.
+export const subscribeClassifications = (listener: ClassificationListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Text files send their start; anything with a thumbnail sends that rather than the full-size original
+const describeContent = async (file: BeeFile, content?: Blob) => {
+  if (isTextFile(file.name, file.type)) {
+    const source = content || await getFileBlob(file);
+    return { text: await source.slice(0, TEXT_SNIPPET_BYTES).text() };
+  }
+  const [record] = await getThumbnailRecords([file.blobId]);
+  const thumbnail = await openThumbnail(file, record);
+  return thumbnail ? { image: { data: await toBase64(thumbnail), mimeType: thumbnail.type || 'image/webp' } } : {};
+};
+
+// Rejects when BeeAI can't be reached, so a journaled run is tried again later.
+// Content replaced in the meantime keeps its record untouched.
+export const classifyStoredFile = async (file: BeeFile, content?: Blob, options?: JobOptions & Pick<SuggestOptions, 'fresh'>): Promise<void> => {
+  if (!canClassify(file)) return;
+  const described = await describeContent(file, content);
+  options?.signal?.throwIfAborted();
+  const suggestion = await suggestClassification(file.ownerId, file.hash, { name: file.name, type: file.type, size: file.size, ...described }, { signal: options?.signal, fresh: options?.fresh });
+  options?.signal?.throwIfAborted();
+  const classification: FileClassification = { ...suggestion, blobId: file.blobId, classifiedAt: Date.now(), status: 'suggested' };
+  const saved = await updateFiles([file.id], current => (current.blobId === file.blobId ? { ...current, classification } : current));
+  if (saved.length) listeners.forEach(listener => listener(saved));
+};
+
+// Applies the suggestion, with whatever the owner changed in it, to the file's own category and tags
+export const acceptClassification = (file: BeeFile, accepted: Pick<FileClassification, 'category' | 'tags' | 'title'>): BeeFile => {
+  const classification = getClassification(file);
+  if (!classification) return file;
+  const tags = accepted.tags.reduce(addTag, file.tags || []);
+  return {
+    ...file,
+    category: accepted.category,
+    ...(tags.length ? { tags } : {}),
+    classification: { ...classification, ...accepted, status: 'accepted' }
+  };
+};
+
+export const dismissClassification = (file: BeeFile): BeeFile => {
+  const classification = getClassification(file);
+  return classification ? { ...file, classification: { ...classification, status: 'dismissed' } } : file;
+};
+
+// Free text also finds files by what BeeAI said about them, unless its owner turned that down
+export const matchesClassification = (file: BeeFile, query: string): boolean => {
+  const classification = getClassification(file);
+  if (!classification || classification.status === 'dismissed') return false;
+  const needle = query.trim().toLowerCase();
+  return [classification.title, classification.description, ...classification.tags].some(text => text.toLowerCase().includes(needle));
+};
@@ -0,0 +1,128 @@
+
+import { HiveKeyState } from '../types';
+
+const KEYRING_KEY = 'bee_keyrings';
+const KDF_ITERATIONS = 600000;
+const IV_BYTES = 12;
+
+// The per-user data key never leaves memory unwrapped; only its wrapped form is persisted
+interface Keyring {
+  userId: string;
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedKey: string;
+}
+
+export class HiveLockedError extends Error {
+  constructor() {
+    super('Hive is locked. Unlock it with your password to access encrypted files.');
+    this.name = 'HiveLockedError';
+  }
+}
+
+const unlockedKeys = new Map<string, CryptoKey>();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const getKeyrings = (): Keyring[] => JSON.parse(localStorage.getItem(KEYRING_KEY) || '[]');
+
+const putKeyring = (keyring: Keyring) => {
+  const others = getKeyrings().filter(k => k.userId !== keyring.userId);
+  localStorage.setItem(KEYRING_KEY, JSON.stringify([...others, keyring]));
+};
+
+const findKeyring = (userId: string) => getKeyrings().find(k => k.userId === userId);
+
+const deriveWrappingKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, password: string): Promise<Omit<Keyring, 'userId'>> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrappingKey = await deriveWrappingKey(password, salt, KDF_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iterations: KDF_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(wrapped) };
+};
+
+const unwrapDataKey = async (keyring: Keyring, password: string, extractable: boolean): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(password, fromBase64(keyring.salt), keyring.iterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(keyring.wrappedKey),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(keyring.iv) },
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptionEnabled = (userId: string): boolean => !!findKeyring(userId);
+
+export const getKeyState = (userId: string): HiveKeyState => {
+  if (!isEncryptionEnabled(userId)) return 'disabled';
+  return unlockedKeys.has(userId) ? 'unlocked' : 'locked';
+};
+
+// Returns the data key for a user with encryption on, null when encryption is off
+export const getDataKey = (userId: string): CryptoKey | null => {
+  if (!isEncryptionEnabled(userId)) return null;
+  const key = unlockedKeys.get(userId);
+  if (!key) throw new HiveLockedError();
+  return key;
+};
+
+export const createKeyring = async (userId: string, password: string): Promise<void> => {
+  if (isEncryptionEnabled(userId)) throw new Error('Encryption is already enabled for this hive.');
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  putKeyring({ userId, ...(await wrapDataKey(dataKey, password)) });
+  unlockedKeys.set(userId, dataKey);
+};
+
+// Resolves false on a wrong password; AES-GCM unwrap fails authentication in that case
+export const unlockKeyring = async (userId: string, password: string): Promise<boolean> => {
+  const keyring = findKeyring(userId);
+  if (!keyring) return true;
+  try {
+    unlockedKeys.set(userId, await unwrapDataKey(keyring, password, false));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const lockKeyring = (userId: string) => {
+  unlockedKeys.delete(userId);
+};
+
+// Re-wraps the same data key under the new password, so stored blobs stay readable untouched
+export const rewrapKeyring = async (userId: string, currentPassword: string, newPassword: string): Promise<void> => {
+  const keyring = findKeyring(userId);
+  if (!keyring) return;
+  const dataKey = await unwrapDataKey(keyring, currentPassword, true);
+  putKeyring({ userId, ...(await wrapDataKey(dataKey, newPassword)) });
+  unlockedKeys.set(userId, await unwrapDataKey(findKeyring(userId)!, newPassword, false));
+};
+
+// Layout: 12-byte IV followed by the AES-GCM ciphertext
+export const encryptBlob = async (key: CryptoKey, blob: Blob): Promise<Blob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await blob.arrayBuffer());
+  return new Blob([iv, ciphertext], { type: 'application/octet-stream' });
+};
+
+export const decryptBlob = async (key: CryptoKey, blob: Blob, type: string): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, key, bytes.slice(IV_BYTES));
+  return new Blob([plaintext], { type });
+};
@@ -0,0 +1,12 @@
+// Hands a Blob to the browser's download manager under the given name. The
+// object URL is kept alive for a while, since large files take time to hand off.
+const REVOKE_DELAY_MS = 60 * 1000;
+
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,40 @@
+
+import { BeeFolder } from '../types';
+
+// dataTransfer type used when dragging a file card onto a folder or breadcrumb
+export const FILE_DRAG_TYPE = 'application/x-bee-file';
+
+export const getFolderPath = (folders: BeeFolder[], folderId: string | null): BeeFolder[] => {
+  const path: BeeFolder[] = [];
+  const seen = new Set<string>();
+  let current = folders.find(f => f.id === folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    const parentId = current.parentId;
+    current = folders.find(f => f.id === parentId);
+  }
+  return path;
+};
+
+export const getChildFolders = (folders: BeeFolder[], parentId: string | null): BeeFolder[] => {
+  return folders
+    .filter(f => f.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Returns the folder itself plus every folder nested beneath it
+export const getDescendantFolderIds = (folders: BeeFolder[], folderId: string): string[] => {
+  const ids = [folderId];
+  for (let i = 0; i < ids.length; i++) {
+    folders.filter(f => f.parentId === ids[i]).forEach(f => {
+      if (!ids.includes(f.id)) ids.push(f.id);
+    });
+  }
+  return ids;
+};
+
+export const isFolderNameTaken = (folders: BeeFolder[], parentId: string | null, name: string, exceptId?: string): boolean => {
+  const normalized = name.trim().toLowerCase();
+  return folders.some(f => f.parentId === parentId && f.id !== exceptId && f.name.toLowerCase() === normalized);
+};
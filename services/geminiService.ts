@@ -1,25 +1,69 @@
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, AiUnavailableError, CLASSIFICATION_CATEGORIES, ClassificationInput, MAX_SUGGESTED_TAGS } from './aiProvider';
 
-import { GoogleGenAI } from "@google/genai";
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const MAX_SNIPPET_CHARS = 4000;
 
-export const getFileInsight = async (fileName: string, fileType: string, contentSnippet?: string): Promise<string> => {
-  try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = `
-      You are BeeAI, the assistant for Bee File Store. 
-      Analyze the following file information and provide a 2-sentence helpful summary or tip.
-      File Name: ${fileName}
-      File Type: ${fileType}
-      ${contentSnippet ? `Content Preview: ${contentSnippet.substring(0, 500)}` : ''}
-    `;
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING, enum: [...CLASSIFICATION_CATEGORIES], description: 'The kind of file' },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: `Up to ${MAX_SUGGESTED_TAGS} short lowercase topic tags` },
+    title: { type: Type.STRING, description: 'A short human title for the file' },
+    description: { type: Type.STRING, description: 'One or two sentences on what the file contains' },
+    sensitive: { type: Type.BOOLEAN, description: 'True when it holds personal, financial, medical or credential data' },
+  },
+  required: ['category', 'tags', 'title', 'description', 'sensitive'],
+  propertyOrdering: ['category', 'tags', 'title', 'description', 'sensitive'],
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+const buildPrompt = ({ name, type, size, text }: ClassificationInput) => `
+  You are BeeAI, the assistant for Bee File Store.
+  Classify the file below for its owner's library: pick its category, suggest tags,
+  give it a readable title and a short description, and flag it as sensitive if it
+  holds personal, financial, medical or credential data.
+  File Name: ${name}
+  File Type: ${type || 'unknown'}
+  Size: ${size} bytes
+  ${text ? `Content Preview: ${text.substring(0, MAX_SNIPPET_CHARS)}` : ''}
+`;
 
-    return response.text || "I've analyzed your file! It's safely stored in your Bee Hive.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "The bees are busy right now, but your file is safe and sound!";
+// Failures that say nothing about the file are reported as BeeAI being unavailable
+const toUnavailable = (err: unknown): unknown => {
+  if (err instanceof ApiError) {
+    if (err.status === 429) return new AiUnavailableError('rateLimited', 'Gemini is rate limiting this hive. Try again in a minute.');
+    if (err.status === 401 || err.status === 403) return new AiUnavailableError('unconfigured', 'Gemini rejected the API key.');
+    if (err.status >= 500) return new AiUnavailableError('failed', `Gemini is having trouble (${err.status}).`);
   }
+  // fetch rejects with a TypeError when the request never got an answer
+  if (err instanceof TypeError) return new AiUnavailableError('offline', 'Gemini could not be reached.');
+  return err;
+};
+
+// One client for the page; the key and model come from the build environment
+export const createGeminiProvider = (): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const model = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: 'gemini',
+    model,
+    needsNetwork: true,
+    classify: async (input, signal) => {
+      const prompt = buildPrompt(input);
+      let text: string | undefined;
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: input.image ? [{ inlineData: input.image }, { text: prompt }] : prompt,
+          config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA, abortSignal: signal },
+        });
+        text = response.text;
+      } catch (err) {
+        throw toUnavailable(err);
+      }
+      if (!text) throw new Error('Gemini returned no classification.');
+      return JSON.parse(text);
+    },
+  };
 };
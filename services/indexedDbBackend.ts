@@ -0,0 +1,165 @@
+
+import { BeeFile, BeeFolder } from '../types';
+import { StorageBackend, StorageTransaction, StoredBlob, StorageKey, StoreName, RecordStoreName, KeyQuery, STORE_SCHEMA, isKeyRange } from './storageBackend';
+
+const DB_NAME = 'BeeFileStoreDB';
+const BLOB_STORE = 'files'; // Holds Blobs, or BlobRefs for content kept in OPFS
+
+// Legacy localStorage keys, imported once by the v2 migration
+const LEGACY_META_KEY = 'bee_file_metadata';
+const LEGACY_FOLDER_KEY = 'bee_folder_metadata';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// migrations[n] upgrades the schema from version n to n + 1. Never edit a
+// shipped step; append a new one and the DB version follows automatically.
+// The result has to match STORE_SCHEMA.
+const migrations: Migration[] = [
+  // v1: raw blob store keyed by blobId
+  (db) => {
+    if (!db.objectStoreNames.contains(BLOB_STORE)) {
+      db.createObjectStore(BLOB_STORE);
+    }
+  },
+  // v2: indexed metadata and folder stores, seeded from localStorage
+  (db, transaction) => {
+    const meta = db.createObjectStore('metadata', { keyPath: 'id' });
+    ['ownerId', 'category', 'name', 'lastModified'].forEach(index => meta.createIndex(index, index));
+    const folders = db.createObjectStore('folders', { keyPath: 'id' });
+    folders.createIndex('ownerId', 'ownerId');
+
+    const legacyFiles: BeeFile[] = JSON.parse(localStorage.getItem(LEGACY_META_KEY) || '[]');
+    legacyFiles.forEach(f => meta.put({ ...f, parentId: f.parentId ?? null }));
+    const legacyFolders: BeeFolder[] = JSON.parse(localStorage.getItem(LEGACY_FOLDER_KEY) || '[]');
+    legacyFolders.forEach(f => folders.put(f));
+
+    transaction.addEventListener('complete', () => {
+      localStorage.removeItem(LEGACY_META_KEY);
+      localStorage.removeItem(LEGACY_FOLDER_KEY);
+    });
+  },
+  // v3: reverse lookup from blob to the records sharing it, for reference counting
+  (_db, transaction) => {
+    transaction.objectStore('metadata').createIndex('blobId', 'blobId');
+  },
+  // v4: superseded file contents, which hold blob references of their own
+  (db) => {
+    const versions = db.createObjectStore('versions', { keyPath: STORE_SCHEMA.versions.keyPath });
+    STORE_SCHEMA.versions.indexes.forEach(index => versions.createIndex(index, index));
+  },
+  // v5: full-text index
+  (db) => {
+    db.createObjectStore('contentDocs', { keyPath: STORE_SCHEMA.contentDocs.keyPath }).createIndex('ownerId', 'ownerId');
+    db.createObjectStore('postings', { keyPath: STORE_SCHEMA.postings.keyPath }).createIndex('fileId', 'fileId');
+  },
+  // v6: downscaled previews for the grid
+  (db) => {
+    db.createObjectStore('thumbnails', { keyPath: STORE_SCHEMA.thumbnails.keyPath });
+  },
+  // v7: read-only links to files and folders
+  (db) => {
+    db.createObjectStore('shares', { keyPath: STORE_SCHEMA.shares.keyPath }).createIndex('ownerId', 'ownerId');
+  },
+  // v8: per-file processing still to do, kept across reloads
+  (db) => {
+    db.createObjectStore('jobs', { keyPath: STORE_SCHEMA.jobs.keyPath }).createIndex('ownerId', 'ownerId');
+  },
+  // v9: AI answers by content, so reopening a file doesn't ask again
+  (db) => {
+    db.createObjectStore('aiCache', { keyPath: STORE_SCHEMA.aiCache.keyPath }).createIndex('ownerId', 'ownerId');
+  },
+];
+
+const DB_VERSION = migrations.length;
+
+// The blob store predates the backend interface and keeps its original name
+const storeName = (store: StoreName) => (store === 'blobs' ? BLOB_STORE : store);
+
+const toIDBQuery = (query?: KeyQuery): IDBValidKey | IDBKeyRange | undefined => {
+  if (query === undefined) return undefined;
+  return isKeyRange(query) ? IDBKeyRange.bound(query.lower, query.upper) : query;
+};
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const wrapTransaction = (transaction: IDBTransaction): StorageTransaction => {
+  const source = (store: RecordStoreName, index?: string) => {
+    const objectStore = transaction.objectStore(store);
+    return index ? objectStore.index(index) : objectStore;
+  };
+  const blobs = () => transaction.objectStore(BLOB_STORE);
+  return {
+    getBlob: id => request<StoredBlob | undefined>(blobs().get(id)),
+    hasBlob: async id => (await request(blobs().getKey(id))) !== undefined,
+    putBlob: async (id, blob) => { await request(blobs().put(blob, id)); },
+    deleteBlob: async id => { await request(blobs().delete(id)); },
+    listBlobIds: async () => (await request(blobs().getAllKeys())) as string[],
+    get: (store, key) => request(transaction.objectStore(store).get(key)),
+    getAll: (store, query, index) => request(source(store, index).getAll(toIDBQuery(query))),
+    getAllKeys: async (store, query, index) => (await request(source(store, index).getAllKeys(toIDBQuery(query)))) as StorageKey[],
+    count: (store, query, index) => request(source(store, index).count(toIDBQuery(query))),
+    put: async (store, record) => { await request(transaction.objectStore(store).put(record)); },
+    delete: async (store, query) => { await request(transaction.objectStore(store).delete(toIDBQuery(query)!)); },
+    clear: async store => { await request(transaction.objectStore(store).clear()); },
+  };
+};
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const initDB = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = (event) => {
+        const db = open.result;
+        const transaction = open.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](db, transaction);
+        }
+      };
+      open.onsuccess = () => {
+        const db = open.result;
+        // Another tab is upgrading the schema; step aside so it can proceed
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      open.onerror = () => {
+        dbPromise = null;
+        reject(open.error);
+      };
+    });
+    return dbPromise;
+  };
+
+  const transaction: StorageBackend['transaction'] = async (stores, mode, run, signal) => {
+    const db = await initDB();
+    const tx = db.transaction(Array.from(new Set(stores.map(storeName))), mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+    });
+    const onAbort = () => tx.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const result = await run(wrapTransaction(tx));
+      await done;
+      return result;
+    } catch (err) {
+      // Already finished or aborted transactions throw here; either way nothing more lands
+      try { tx.abort(); } catch { /* settled */ }
+      await done.catch(() => undefined);
+      throw err;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  return { name: 'indexeddb', persistent: true, transaction };
+};
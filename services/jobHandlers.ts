@@ -0,0 +1,144 @@
+import { Sha256 } from './sha256';
+import { tokenize } from './tokenizer';
+import { writeOpfsFile } from './opfsStore';
+import { JobInput, JobKind, JobOutput } from './workerProtocol';
+
+// The work itself, free of the DOM and of the hive's storage so it can run in
+// a processing worker. The pool runs the same handlers on the main thread when
+// workers are unavailable.
+
+export interface JobContext {
+  signal: AbortSignal;
+  progress: (loaded: number) => void;
+}
+
+// Below this, crypto.subtle digests the whole buffer in one go, off the main thread already
+const DIGEST_WHOLE_BYTES = 32 * 1024 * 1024;
+// Enough to recognise every signature below
+const SNIFF_BYTES = 512;
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const fitWithin = (width: number, height: number, maxSize: number): [number, number] => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return [Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))];
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[] | string, offset = 0) => {
+  const expected = typeof signature === 'string' ? Array.from(signature, c => c.charCodeAt(0)) : signature;
+  return expected.every((b, i) => bytes[offset + i] === b);
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// Leading bytes to MIME type. Text is only claimed when the head decodes as UTF-8 without NULs.
+const sniff = (head: Uint8Array): string | null => {
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(head, 'GIF8')) return 'image/gif';
+  if (startsWith(head, 'RIFF')) {
+    const format = ascii(head, 8, 12);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+    if (format === 'AVI ') return 'video/x-msvideo';
+  }
+  if (startsWith(head, 'ftyp', 4)) {
+    const brand = ascii(head, 8, 12);
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand.startsWith('M4A')) return 'audio/mp4';
+    if (['heic', 'heix', 'mif1'].includes(brand)) return 'image/heic';
+    return 'video/mp4';
+  }
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (startsWith(head, '%PDF')) return 'application/pdf';
+  if (startsWith(head, 'OggS')) return 'audio/ogg';
+  if (startsWith(head, 'fLaC')) return 'audio/flac';
+  if (startsWith(head, 'ID3') || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  if (startsWith(head, [0x1f, 0x8b])) return 'application/gzip';
+  if (head.length === 0 || head.includes(0)) return null;
+  let text: string;
+  try {
+    // A multi-byte character cut off at the end of the head is not a decoding error
+    text = new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+  } catch {
+    return null;
+  }
+  const start = text.trimStart().slice(0, 256).toLowerCase();
+  if (start.startsWith('<svg') || (start.startsWith('<?xml') && start.includes('<svg'))) return 'image/svg+xml';
+  return 'text/plain';
+};
+
+type JobHandlers = { [K in JobKind]: (input: JobInput<K>, context: JobContext) => Promise<JobOutput<K>> };
+
+const handlers: JobHandlers = {
+  // Large content is hashed as it streams by rather than read into one buffer
+  hash: async ({ blob }, { signal, progress }) => {
+    if (blob.size < DIGEST_WHOLE_BYTES) {
+      const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+      progress(blob.size);
+      return toHex(new Uint8Array(digest));
+    }
+    const hasher = new Sha256();
+    const reader = blob.stream().getReader();
+    let loaded = 0;
+    try {
+      while (true) {
+        signal.throwIfAborted();
+        const { done, value } = await reader.read();
+        if (done) break;
+        hasher.update(value);
+        loaded += value.byteLength;
+        progress(loaded);
+      }
+    } catch (err) {
+      await reader.cancel().catch(() => undefined);
+      throw err;
+    }
+    return toHex(hasher.digest());
+  },
+
+  storeToOpfs: async ({ blob }, { signal, progress }) => {
+    const hasher = new Sha256();
+    let loaded = 0;
+    const ref = await writeOpfsFile(blob, {
+      signal,
+      onChunk: chunk => {
+        hasher.update(chunk);
+        loaded += chunk.byteLength;
+        progress(loaded);
+      }
+    });
+    return { hash: toHex(hasher.digest()), ref };
+  },
+
+  extractText: async ({ blob, maxChars }) => {
+    const text = await blob.slice(0, maxChars).text();
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    return { text, terms: Array.from(counts), length: tokens.length };
+  },
+
+  // Bitmaps only: SVGs can't be decoded without a document and are left to the page
+  thumbnail: async ({ blob, spec }) => {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      const [width, height] = fitWithin(bitmap.width, bitmap.height, spec.maxSize);
+      const canvas = new OffscreenCanvas(width, height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas 2D is unavailable.');
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, width, height);
+      return await canvas.convertToBlob({ type: spec.type, quality: spec.quality });
+    } finally {
+      bitmap.close();
+    }
+  },
+
+  sniffType: async ({ blob }) => sniff(new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer())),
+};
+
+export const runJobHandler = <K extends JobKind>(kind: K, input: JobInput<K>, context: JobContext): Promise<JobOutput<K>> => {
+  return (handlers[kind] as (input: JobInput<K>, context: JobContext) => Promise<JobOutput<K>>)(input, context);
+};
@@ -0,0 +1,45 @@
+import { AIProvider, ClassificationInput, MAX_SUGGESTED_TAGS } from './aiProvider';
+import { detectCategory, formatFileSize } from './storageService';
+import { tokenize } from './tokenizer';
+
+// A stand-in for development and tests without a network or an API key. It
+// reads nothing but the name, type and text it is given, and the same input
+// always gets the same answer.
+
+const SENSITIVE = /password|passwd|secret|api[_\s-]?key|ssn|social security|passport|iban|credit card|bank statement|salary|payslip|invoice|medical|diagnosis/i;
+const MIN_TAG_LENGTH = 3;
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'you', 'not', 'but', 'have', 'has']);
+
+const stem = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const titleFor = (name: string) => {
+  const words = stem(name).replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim() || name;
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// The most frequent words of the name and text, ties broken alphabetically
+const tagsFor = ({ name, text }: ClassificationInput) => {
+  const counts = new Map<string, number>();
+  tokenize(`${stem(name).replace(/[_\-.]+/g, ' ')} ${text || ''}`)
+    .filter(t => t.length >= MIN_TAG_LENGTH && !STOPWORDS.has(t) && !/^\d+$/.test(t))
+    .forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, MAX_SUGGESTED_TAGS).map(([tag]) => tag);
+};
+
+export const createLocalAiProvider = (): AIProvider => ({
+  name: 'local',
+  model: 'stub-1',
+  needsNetwork: false,
+  classify: async (input, signal) => {
+    signal.throwIfAborted();
+    const { name, type, size, text } = input;
+    const opening = text?.trim().replace(/\s+/g, ' ').slice(0, 60);
+    return {
+      category: detectCategory(type),
+      tags: tagsFor(input),
+      title: titleFor(name),
+      description: `A ${formatFileSize(size)} ${type || 'file'}${opening ? ` that opens with "${opening}"` : ''}.`,
+      sensitive: SENSITIVE.test(`${name} ${text || ''}`),
+    };
+  },
+});
@@ -0,0 +1,94 @@
+
+import { StorageBackend, StorageTransaction, StoredBlob, StorageKey, KeyQuery, RecordStoreName, STORE_SCHEMA, compareKeys, matchesKey } from './storageBackend';
+
+// A backend that keeps everything in JavaScript memory, for demo mode.
+// Transactions run one at a time and roll back by restoring a snapshot
+// of the stores they were given.
+
+interface Row {
+  key: StorageKey;
+  value: unknown;
+}
+
+type Table = Map<string, Row>;
+
+// Keys are compared by value, so rows are stored under a serialized form
+const keyId = (key: StorageKey) => JSON.stringify(key);
+
+const readField = (record: unknown, field: string) => (record as Record<string, unknown>)[field] as StorageKey | undefined;
+
+const primaryKey = (store: RecordStoreName, record: unknown): StorageKey => {
+  const { keyPath } = STORE_SCHEMA[store];
+  const parts = (Array.isArray(keyPath) ? keyPath : [keyPath]).map(field => readField(record, field));
+  if (!parts.every((part): part is StorageKey => part !== undefined)) {
+    throw new DOMException(`The record has no key for ${store}.`, 'DataError');
+  }
+  return Array.isArray(keyPath) ? parts : parts[0];
+};
+
+export const createMemoryBackend = (): StorageBackend => {
+  const blobs = new Map<string, StoredBlob>();
+  const tables = Object.fromEntries(Object.keys(STORE_SCHEMA).map(store => [store, new Map()])) as Record<RecordStoreName, Table>;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Matching rows in key order; with an index, rows lacking the field are skipped as IndexedDB does
+  const select = (store: RecordStoreName, query?: KeyQuery, index?: string): Row[] => {
+    const rows = Array.from(tables[store].values());
+    if (!index) {
+      return rows.filter(row => query === undefined || matchesKey(row.key, query)).sort((a, b) => compareKeys(a.key, b.key));
+    }
+    return rows
+      .map(row => ({ row, indexKey: readField(row.value, index) }))
+      .filter((entry): entry is { row: Row; indexKey: StorageKey } => entry.indexKey !== undefined && (query === undefined || matchesKey(entry.indexKey, query)))
+      .sort((a, b) => compareKeys(a.indexKey, b.indexKey) || compareKeys(a.row.key, b.row.key))
+      .map(entry => entry.row);
+  };
+
+  const tx: StorageTransaction = {
+    getBlob: async id => blobs.get(id),
+    hasBlob: async id => blobs.has(id),
+    putBlob: async (id, blob) => { blobs.set(id, blob); },
+    deleteBlob: async id => { blobs.delete(id); },
+    listBlobIds: async () => Array.from(blobs.keys()).sort(),
+    get: async <T>(store: RecordStoreName, key: StorageKey) => structuredClone(tables[store].get(keyId(key))?.value) as T | undefined,
+    getAll: async <T>(store: RecordStoreName, query?: KeyQuery, index?: string) => select(store, query, index).map(row => structuredClone(row.value) as T),
+    getAllKeys: async (store, query, index) => select(store, query, index).map(row => row.key),
+    count: async (store, query, index) => select(store, query, index).length,
+    put: async (store, record) => {
+      const key = primaryKey(store, record);
+      // Cloned like IndexedDB's structured clone, so later edits to the caller's object don't leak in
+      tables[store].set(keyId(key), { key, value: structuredClone(record) });
+    },
+    delete: async (store, query) => {
+      select(store, query).forEach(row => tables[store].delete(keyId(row.key)));
+    },
+    clear: async store => { tables[store].clear(); },
+  };
+
+  const transaction: StorageBackend['transaction'] = (stores, mode, run, signal) => {
+    const next = queue.then(async () => {
+      if (signal?.aborted) throw new DOMException('Transaction aborted', 'AbortError');
+      const recordStores = stores.filter((s): s is RecordStoreName => s !== 'blobs');
+      const snapshot = mode === 'readwrite'
+        ? { blobs: new Map(blobs), tables: recordStores.map(s => [s, new Map(tables[s])] as [RecordStoreName, Table]) }
+        : null;
+      try {
+        const result = await run(tx);
+        if (signal?.aborted) throw new DOMException('Transaction aborted', 'AbortError');
+        return result;
+      } catch (err) {
+        if (snapshot) {
+          blobs.clear();
+          snapshot.blobs.forEach((blob, id) => blobs.set(id, blob));
+          snapshot.tables.forEach(([store, rows]) => { tables[store] = rows; });
+        }
+        throw err;
+      }
+    });
+    // A failed transaction must not block the ones queued behind it
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return { name: 'memory', persistent: false, transaction };
+};
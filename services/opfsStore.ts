@@ -0,0 +1,93 @@
+
+import { BlobRef } from './storageBackend';
+
+// Large blobs live as files in the Origin Private File System, written in
+// chunks through a writable stream and read back as disk-backed File objects,
+// so neither direction holds the whole content in memory. Files are named at
+// random, not by content hash: the hash is only known once the upload has
+// streamed through, and the blob store keeps the blobId -> file mapping.
+
+const DIRECTORY = 'bee-blobs';
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+export const isOpfsSupported = (): boolean => typeof navigator !== 'undefined'
+  && typeof navigator.storage?.getDirectory === 'function'
+  && typeof FileSystemFileHandle !== 'undefined'
+  && 'createWritable' in FileSystemFileHandle.prototype;
+
+let directory: Promise<FileSystemDirectoryHandle> | null = null;
+
+const getDirectory = (): Promise<FileSystemDirectoryHandle> => {
+  if (!directory) {
+    directory = navigator.storage.getDirectory().then(root => root.getDirectoryHandle(DIRECTORY, { create: true }));
+    directory.catch(() => { directory = null; });
+  }
+  return directory;
+};
+
+export interface OpfsWriteOptions {
+  signal?: AbortSignal;
+  onChunk?: (chunk: Uint8Array) => void; // Sees every chunk as it is written, e.g. to hash it
+}
+
+// Copies the source into a new file chunk by chunk; nothing is left behind if it fails or is aborted
+export const writeOpfsFile = async (source: Blob, { signal, onChunk }: OpfsWriteOptions = {}): Promise<BlobRef> => {
+  const dir = await getDirectory();
+  const path = crypto.randomUUID();
+  const handle = await dir.getFileHandle(path, { create: true });
+  const writable = await handle.createWritable();
+  const reader = source.stream().getReader();
+  try {
+    while (true) {
+      if (signal?.aborted) throw abortError();
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk?.(value);
+      await writable.write(value);
+    }
+    await writable.close();
+    return { location: 'opfs', path, size: source.size };
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    await writable.abort().catch(() => undefined);
+    await dir.removeEntry(path).catch(() => undefined);
+    throw err;
+  }
+};
+
+// The File reads straight from disk; slicing it to set the type doesn't copy either
+export const readOpfsFile = async (ref: BlobRef, type = ''): Promise<Blob> => {
+  const dir = await getDirectory();
+  try {
+    const file = await (await dir.getFileHandle(ref.path)).getFile();
+    return file.slice(0, file.size, type);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'NotFoundError') throw new Error(`OPFS file ${ref.path} is missing from the hive.`);
+    throw err;
+  }
+};
+
+// Best effort: a file that survives is an orphan for sweepOpfsFiles, not an error
+export const removeOpfsFiles = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+  const dir = await getDirectory();
+  await Promise.all(paths.map(path => dir.removeEntry(path).catch(() => undefined)));
+};
+
+// Uploads that are still streaming in, possibly in another tab, have files nothing references yet
+const ORPHAN_AGE_MS = 60 * 60 * 1000;
+
+// Deletes files no blob record points at, left by a crash between writing a file and committing its record
+export const sweepOpfsFiles = async (referenced: Set<string>): Promise<number> => {
+  const dir = await getDirectory();
+  const cutoff = Date.now() - ORPHAN_AGE_MS;
+  const orphans: string[] = [];
+  for await (const [path, handle] of dir.entries()) {
+    if (referenced.has(path) || handle.kind !== 'file') continue;
+    const file = await (handle as FileSystemFileHandle).getFile();
+    if (file.lastModified < cutoff) orphans.push(path);
+  }
+  await removeOpfsFiles(orphans);
+  return orphans.length;
+};
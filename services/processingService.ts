@@ -0,0 +1,73 @@
+import { BeeFile, FileTask } from '../types';
+import { getPendingJobs, savePendingJobs, deletePendingJobs } from './storageService';
+import { indexFile } from './searchService';
+import { createThumbnail } from './thumbnailService';
+import { canClassify, classifyStoredFile } from './classificationService';
+import { getDataKey } from './cryptoService';
+import { JobOptions, isAbortError } from './workerPool';
+
+// What a stored file needs before it is fully part of the hive. Each task is
+// journaled before it starts and cleared once it lands, so work cut short by
+// the tab closing resumes on the next launch. Uploads still being written when
+// the tab closes can't resume: the browser takes the picked files with it.
+
+const jobId = (fileId: string, task: FileTask) => `${fileId}:${task}`;
+
+const runners: Record<FileTask, (file: BeeFile, content: Blob | undefined, options: JobOptions) => Promise<void>> = {
+  index: indexFile,
+  thumbnail: createThumbnail,
+  classify: classifyStoredFile,
+};
+
+const runTask = (file: BeeFile, task: FileTask, content: Blob | undefined, options: JobOptions): Promise<void> => {
+  return runners[task](file, content, options);
+};
+
+// Classification waits on the network, so uploads don't: it runs one file at a
+// time behind them, after the thumbnail it may send along has been made
+let classifying: Promise<void> = Promise.resolve();
+
+// A failed task stays journaled and is tried again next launch; it never fails the upload
+const runJournaled = async (file: BeeFile, task: FileTask, content: Blob | undefined, options: JobOptions) => {
+  try {
+    await runTask(file, task, content, options);
+    await deletePendingJobs([jobId(file.id, task)]);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.error(`Processing ${file.name} (${task}) failed:`, err);
+  }
+};
+
+// Pass the plaintext the upload already holds. Deduplicated content already has its
+// thumbnail. Resolves once the file is indexed and thumbnailed; classification follows later.
+export const processStoredFile = async (file: BeeFile, content: Blob, { deduplicated = false, ...options }: JobOptions & { deduplicated?: boolean } = {}): Promise<void> => {
+  const tasks: FileTask[] = deduplicated ? ['index'] : ['index', 'thumbnail'];
+  const classify = canClassify(file);
+  const queuedAt = Date.now();
+  await savePendingJobs([...tasks, ...(classify ? ['classify' as const] : [])].map(task => ({ id: jobId(file.id, task), fileId: file.id, ownerId: file.ownerId, task, queuedAt })));
+  for (const task of tasks) await runJournaled(file, task, content, options);
+  if (classify) classifying = classifying.then(() => runJournaled(file, 'classify', content, { priority: 'low' })).catch(() => undefined);
+};
+
+// Picks up the journal at low priority and resolves how many tasks it ran. Tasks
+// for files that have since gone are dropped; sealed files wait until the hive is unlocked.
+export const resumeProcessing = async (ownerId: string, files: BeeFile[], signal?: AbortSignal): Promise<number> => {
+  const pending = await getPendingJobs(ownerId);
+  const byId = new Map(files.map(f => [f.id, f]));
+  const orphaned = pending.filter(job => !byId.has(job.fileId));
+  if (orphaned.length) await deletePendingJobs(orphaned.map(job => job.id));
+  const resumable = pending.filter(job => byId.has(job.fileId)).sort((a, b) => a.queuedAt - b.queuedAt);
+  let ran = 0;
+  for (const job of resumable) {
+    const file = byId.get(job.fileId)!;
+    if (signal?.aborted) break;
+    if (file.encrypted && !getDataKey(file.ownerId)) continue;
+    try {
+      await runJournaled(file, job.task, undefined, { priority: 'low', signal });
+      ran++;
+    } catch {
+      break; // Only cancellation gets this far
+    }
+  }
+  return ran;
+};
@@ -0,0 +1,24 @@
+import { BeeFile } from '../types';
+import { getStorageBackend } from './storageBackend';
+
+// The service worker (serviceWorker.ts, served as /sw.js) keeps the app shell
+// for offline use and streams stored content at /blob/:blobId.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  // Registered after load so installing the shell doesn't compete with the first paint
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(err => console.error("Service worker registration failed:", err));
+  }, { once: true });
+};
+
+// A URL the browser can range-request, or null when the content has to be read
+// into the page instead: the worker only reads IndexedDB, can't decrypt, and
+// isn't in control until it has installed.
+export const getStreamUrl = (content: Pick<BeeFile, 'blobId' | 'encrypted'>): string | null => {
+  if (content.encrypted || getStorageBackend().name !== 'indexeddb') return null;
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) return null;
+  return `/blob/${encodeURIComponent(content.blobId)}`;
+};
@@ -0,0 +1,280 @@
+
+import { BeeFile, FileCategory, LabelColor } from '../types';
+import { LABEL_COLORS, normalizeTag } from './tagService';
+import { isAwaitingReview, isFlaggedSensitive } from './classificationService';
+
+// Search box grammar, loosest binding first:
+//   query   := and ('OR' and)*
+//   and     := unary (['AND'] unary)*
+//   unary   := ('-' | 'NOT') unary | '(' query ')' | term
+//   term    := field ':' [op] value | value
+//   value   := word | "quoted phrase"
+// Keywords are only recognised in upper case, so "or" is still an ordinary word.
+
+export type QueryField = 'name' | 'type' | 'ext' | 'category' | 'size' | 'modified' | 'tag' | 'label' | 'is';
+export type QueryOp = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: QueryField; op: QueryOp; value: string; min: number; max: number };
+
+export interface QueryError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null; // null for an empty query or one that failed to parse
+  error: QueryError | null;
+}
+
+export const QUERY_FIELDS: { name: QueryField; hint: string }[] = [
+  { name: 'name', hint: 'Name contains, e.g. name:"q3 report"' },
+  { name: 'type', hint: 'MIME type or format, e.g. type:pdf' },
+  { name: 'ext', hint: 'Extension, e.g. ext:tmp' },
+  { name: 'category', hint: 'images, videos, documents or others' },
+  { name: 'size', hint: 'Compare sizes, e.g. size:>10MB' },
+  { name: 'modified', hint: 'Compare dates, e.g. modified:<2025-01-01' },
+  { name: 'tag', hint: 'Carries the tag, e.g. tag:invoices' },
+  { name: 'label', hint: 'Color label, e.g. label:red' },
+  { name: 'is', hint: 'is:starred, is:sensitive or is:suggested (awaiting review)' },
+];
+
+const COMPARABLE: QueryField[] = ['size', 'modified'];
+const FLAGS = ['starred', 'sensitive', 'suggested'];
+const CATEGORIES: FileCategory[] = ['images', 'videos', 'documents', 'others'];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+
+type Token =
+  | { kind: '(' | ')' | 'OR' | 'AND' | 'NOT'; start: number }
+  | { kind: 'term'; start: number; field?: string; op: QueryOp; value: string; valueStart: number };
+
+class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+const isBreak = (ch: string) => /\s|[()]/.test(ch);
+
+const lex = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readValue = (): [string, number] => {
+    const start = i;
+    if (input[i] === '"') {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new QuerySyntaxError('Unclosed quote', start);
+      i++;
+      return [value, start];
+    }
+    while (i < input.length && !isBreak(input[i]) && input[i] !== '"') i++;
+    return [input.slice(start, i), start];
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch, start: i++ });
+    } else if (ch === '-' && i + 1 < input.length && !/\s|\)/.test(input[i + 1])) {
+      // Negates whatever follows, a group included
+      tokens.push({ kind: 'NOT', start: i++ });
+    } else {
+      const start = i;
+      const fieldMatch = /^([a-z]+):/i.exec(input.slice(i));
+      if (fieldMatch) {
+        i += fieldMatch[0].length;
+        const op = /^(>=|<=|>|<|=)/.exec(input.slice(i))?.[0] as QueryOp | undefined;
+        if (op) i += op.length;
+        const [value, valueStart] = readValue();
+        tokens.push({ kind: 'term', start, field: fieldMatch[1].toLowerCase(), op: op || '=', value, valueStart });
+        continue;
+      }
+      const [value, valueStart] = readValue();
+      if (input[start] !== '"' && (value === 'OR' || value === 'AND' || value === 'NOT')) {
+        tokens.push({ kind: value, start });
+      } else {
+        tokens.push({ kind: 'term', start, op: '=', value, valueStart });
+      }
+    }
+  }
+  return tokens;
+};
+
+const parseSize = (value: string, position: number): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i.exec(value);
+  if (!match) throw new QuerySyntaxError(`"${value}" is not a size; try 10MB`, position);
+  return parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+};
+
+// A date names a span: a whole year, month or day. Comparisons use its edges.
+const parseDateSpan = (value: string, position: number): [number, number] => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) throw new QuerySyntaxError(`"${value}" is not a date; use YYYY-MM-DD`, position);
+  const [year, month, day] = [Number(match[1]), match[2] ? Number(match[2]) - 1 : undefined, match[3] ? Number(match[3]) : undefined];
+  if (month !== undefined && (month < 0 || month > 11)) throw new QuerySyntaxError(`"${value}" has no such month`, position);
+  const start = new Date(year, month ?? 0, day ?? 1);
+  const end = day !== undefined ? new Date(year, month!, day + 1) : month !== undefined ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+  if (day !== undefined && start.getMonth() !== month) throw new QuerySyntaxError(`"${value}" has no such day`, position);
+  return [start.getTime(), end.getTime()];
+};
+
+const buildField = (token: Extract<Token, { kind: 'term' }>): QueryNode => {
+  const field = QUERY_FIELDS.find(f => f.name === token.field)?.name;
+  if (!field) throw new QuerySyntaxError(`Unknown field "${token.field}"`, token.start);
+  if (!token.value) throw new QuerySyntaxError(`"${field}:" needs a value`, token.valueStart);
+  if (token.op !== '=' && !COMPARABLE.includes(field)) throw new QuerySyntaxError(`"${field}" cannot be compared with ${token.op}`, token.start);
+  let min = 0;
+  let max = 0;
+  if (field === 'size') {
+    min = max = parseSize(token.value, token.valueStart);
+  } else if (field === 'modified') {
+    [min, max] = parseDateSpan(token.value, token.valueStart);
+  } else if (field === 'category' && !CATEGORIES.includes(token.value.toLowerCase() as FileCategory)) {
+    throw new QuerySyntaxError(`Category must be one of ${CATEGORIES.join(', ')}`, token.valueStart);
+  } else if (field === 'label' && !LABEL_COLORS.includes(token.value.toLowerCase() as LabelColor)) {
+    throw new QuerySyntaxError(`Label must be one of ${LABEL_COLORS.join(', ')}`, token.valueStart);
+  } else if (field === 'is' && !FLAGS.includes(token.value.toLowerCase())) {
+    throw new QuerySyntaxError(`is: must be one of ${FLAGS.join(', ')}`, token.valueStart);
+  }
+  const value = field === 'tag' ? normalizeTag(token.value) : token.value.toLowerCase();
+  return { kind: 'field', field, op: token.op, value, min, max };
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  if (!input.trim()) return { ast: null, error: null };
+  let tokens: Token[];
+  try {
+    tokens = lex(input);
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return { ast: null, error: { message: err.message, position: err.position } };
+    throw err;
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const end = () => (pos < tokens.length ? tokens[pos].start : input.length);
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'OR') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (pos < tokens.length && peek().kind !== 'OR' && peek().kind !== ')') {
+      if (peek().kind === 'AND') pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('Query ends too early', input.length);
+    pos++;
+    if (token.kind === 'NOT') return { kind: 'not', child: parseUnary() };
+    if (token.kind === '(') {
+      const inner = parseOr();
+      if (peek()?.kind !== ')') throw new QuerySyntaxError('Missing closing parenthesis', end());
+      pos++;
+      return inner;
+    }
+    if (token.kind === 'term') {
+      if (token.field) return buildField(token);
+      return { kind: 'text', value: token.value };
+    }
+    throw new QuerySyntaxError(`Unexpected ${token.kind}`, token.start);
+  };
+
+  try {
+    const ast = parseOr();
+    if (pos < tokens.length) throw new QuerySyntaxError(`Unexpected ${peek().kind === 'term' ? 'term' : peek().kind}`, end());
+    return { ast, error: null };
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return { ast: null, error: { message: err.message, position: err.position } };
+    throw err;
+  }
+};
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const compare = (actual: number, op: QueryOp, min: number, max: number) => {
+  switch (op) {
+    case '>': return actual > max;
+    case '>=': return actual >= min;
+    case '<': return actual < min;
+    case '<=': return actual <= max;
+    default: return actual >= min && actual <= max;
+  }
+};
+
+const matchesField = (node: Extract<QueryNode, { kind: 'field' }>, file: BeeFile): boolean => {
+  const { value } = node;
+  switch (node.field) {
+    case 'name': return file.name.toLowerCase().includes(value);
+    case 'type': return file.type.toLowerCase().includes(value) || extensionOf(file.name) === value;
+    case 'ext': return extensionOf(file.name) === value.replace(/^\./, '');
+    case 'category': return file.category === value;
+    case 'size': return compare(file.size, node.op, node.min, node.max);
+    // Date spans are half-open, so the last instant inside is max - 1
+    case 'modified': return compare(file.lastModified, node.op, node.min, node.max - 1);
+    case 'tag': return !!file.tags?.includes(value);
+    case 'label': return file.label === value;
+    case 'is': return value === 'sensitive' ? isFlaggedSensitive(file) : value === 'suggested' ? isAwaitingReview(file) : !!file.starred;
+  }
+};
+
+// Free text is resolved by the caller, which knows about names and the content index
+export const matchesQuery = (node: QueryNode, file: BeeFile, matchesText: (text: string, file: BeeFile) => boolean): boolean => {
+  switch (node.kind) {
+    case 'and': return node.children.every(child => matchesQuery(child, file, matchesText));
+    case 'or': return node.children.some(child => matchesQuery(child, file, matchesText));
+    case 'not': return !matchesQuery(node.child, file, matchesText);
+    case 'text': return matchesText(node.value, file);
+    case 'field': return matchesField(node, file);
+  }
+};
+
+// Free-text terms outside any negation, which is what ranking and snippets use. Content
+// search also needs the negated ones, so that excluding a word excludes files containing it.
+export const collectTextTerms = (node: QueryNode | null, includeNegated = false): string[] => {
+  if (!node || node.kind === 'field') return [];
+  if (node.kind === 'not') return includeNegated ? collectTextTerms(node.child, true) : [];
+  if (node.kind === 'text') return [node.value];
+  return Array.from(new Set(node.children.flatMap(child => collectTextTerms(child, includeNegated))));
+};
+
+// True when the query has no fields, operators or negation, i.e. the plain name search of old
+export const isPlainText = (node: QueryNode | null): boolean => {
+  if (!node) return true;
+  if (node.kind === 'text') return true;
+  return node.kind === 'and' && node.children.every(child => child.kind === 'text');
+};
+
+// The field name being typed at the caret, for autocomplete
+export const getFieldPrefix = (input: string, caret: number): string | null => {
+  // A '-' only negates at the start of a term, as in the lexer; inside a word it is part of it
+  const match = /(?:^|[\s()])-?([a-z]+)$/i.exec(input.slice(0, caret));
+  return match ? match[1].toLowerCase() : null;
+};
@@ -0,0 +1,71 @@
+
+import { BeeFile, QuotaInfo } from '../types';
+
+const QUOTA_KEY = 'bee_quotas';
+
+export const DEFAULT_QUOTA_BYTES = 2 * 1024 * 1024 * 1024;
+export const WARNING_PERCENT = 80;
+export const CRITICAL_PERCENT = 95;
+
+interface UserQuota {
+  userId: string;
+  bytes: number;
+}
+
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+}
+
+export const getUserQuota = (userId: string): number => {
+  const quotas: UserQuota[] = JSON.parse(localStorage.getItem(QUOTA_KEY) || '[]');
+  return quotas.find(q => q.userId === userId)?.bytes ?? DEFAULT_QUOTA_BYTES;
+};
+
+export const setUserQuota = (userId: string, bytes: number) => {
+  const quotas: UserQuota[] = JSON.parse(localStorage.getItem(QUOTA_KEY) || '[]');
+  localStorage.setItem(QUOTA_KEY, JSON.stringify([...quotas.filter(q => q.userId !== userId), { userId, bytes }]));
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimateInfo | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// null when the browser has no persistence API
+export const isStoragePersisted = async (): Promise<boolean | null> => {
+  if (!navigator.storage?.persisted) return null;
+  return navigator.storage.persisted();
+};
+
+export const requestStoragePersistence = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+// Deduplicated blobs are counted once, since that is what they occupy on disk.
+// Pass archived versions alongside the files; their blobs take space too.
+export const getHiveUsage = (files: Pick<BeeFile, 'blobId' | 'size'>[]): number => {
+  const seen = new Set<string>();
+  return files.reduce((acc, f) => {
+    if (seen.has(f.blobId)) return acc;
+    seen.add(f.blobId);
+    return acc + f.size;
+  }, 0);
+};
+
+export const computeQuota = (used: number, userQuota: number, estimate: StorageEstimateInfo | null): QuotaInfo => {
+  // The browser's free space is shared by every user of this origin, so it can cap us below the quota
+  const browserRoom = estimate && estimate.quota > 0 ? used + Math.max(estimate.quota - estimate.usage, 0) : Infinity;
+  const limit = Math.min(userQuota, browserRoom);
+  const percent = limit > 0 ? Math.min((used / limit) * 100, 100) : 100;
+  return {
+    used,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    percent,
+    level: percent >= CRITICAL_PERCENT ? 'critical' : percent >= WARNING_PERCENT ? 'warning' : 'ok',
+    browserBound: browserRoom < userQuota
+  };
+};
@@ -0,0 +1,117 @@
+import { FileCategory, HiveView, SearchScope, SortBy, SortOrder } from '../types';
+
+// Paths are segments in a fixed order, each optional:
+//   /trash /folders/:id /category/:cat /files/:id
+// so /folders/abc/category/images/files/xyz is a preview opened over a filtered
+// cell. The search, sort, tag and search scope ride in the query string:
+//   /category/images?q=report&sort=date:desc&tag=work&scope=all
+// /login and /signup take ?next= for where to go once signed in.
+
+export interface HiveLocation {
+  view: HiveView;
+  folderId: string | null;
+  category: FileCategory;
+  fileId: string | null; // The file open in the preview
+  query: string;
+  sortBy: SortBy;
+  sortOrder: SortOrder;
+  tag: string | null;
+  scope: SearchScope;
+}
+
+export type AuthPage = 'login' | 'signup';
+
+export type Route =
+  | { page: AuthPage; next: string | null }
+  | { page: 'hive'; location: HiveLocation };
+
+export const DEFAULT_LOCATION: HiveLocation = {
+  view: 'hive',
+  folderId: null,
+  category: 'all',
+  fileId: null,
+  query: '',
+  sortBy: 'date',
+  sortOrder: 'desc',
+  tag: null,
+  scope: 'folder'
+};
+
+const CATEGORIES: FileCategory[] = ['all', 'images', 'videos', 'documents', 'others'];
+const SORT_FIELDS: SortBy[] = ['name', 'size', 'type', 'date', 'category'];
+// Query parameters the router owns; any others (like ?storage=) are left on the URL untouched
+const ROUTE_PARAMS = ['q', 'sort', 'tag', 'scope', 'next'];
+
+const parseSort = (value: string | null): Pick<HiveLocation, 'sortBy' | 'sortOrder'> => {
+  const [field, order] = (value || '').split(':');
+  return {
+    sortBy: SORT_FIELDS.includes(field as SortBy) ? field as SortBy : DEFAULT_LOCATION.sortBy,
+    sortOrder: order === 'asc' || order === 'desc' ? order : DEFAULT_LOCATION.sortOrder
+  };
+};
+
+// Only same-origin paths, so ?next= can't send anyone elsewhere after signing in
+export const isSafeNext = (next: string | null): next is string => !!next && next.startsWith('/') && !next.startsWith('//');
+
+// Null for paths that match no route
+export const parseRoute = (pathname: string, search: string): Route | null => {
+  const params = new URLSearchParams(search);
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (segments.length === 1 && (segments[0] === 'login' || segments[0] === 'signup')) {
+    const next = params.get('next');
+    return { page: segments[0], next: isSafeNext(next) ? next : null };
+  }
+  const location: HiveLocation = {
+    ...DEFAULT_LOCATION,
+    ...parseSort(params.get('sort')),
+    query: params.get('q') || '',
+    tag: params.get('tag') || null,
+    scope: params.get('scope') === 'all' ? 'all' : 'folder'
+  };
+  let i = 0;
+  if (segments[i] === 'trash') {
+    location.view = 'trash';
+    i++;
+  }
+  const take = (name: string): string | null => {
+    if (segments[i] !== name || segments[i + 1] === undefined) return null;
+    i += 2;
+    return segments[i - 1];
+  };
+  location.folderId = take('folders');
+  const category = take('category');
+  if (category !== null) {
+    if (!CATEGORIES.includes(category as FileCategory)) return null;
+    location.category = category as FileCategory;
+  }
+  location.fileId = take('files');
+  return i === segments.length ? { page: 'hive', location } : null;
+};
+
+// Path and query for the route, keeping parameters that belong to someone else
+export const formatRoute = (route: Route, currentSearch = ''): string => {
+  const params = new URLSearchParams(currentSearch);
+  ROUTE_PARAMS.forEach(name => params.delete(name));
+  let path: string;
+  if (route.page !== 'hive') {
+    path = `/${route.page}`;
+    if (route.next) params.set('next', route.next);
+  } else {
+    const { location } = route;
+    const segments: string[] = [];
+    if (location.view === 'trash') segments.push('trash');
+    if (location.folderId) segments.push('folders', location.folderId);
+    if (location.category !== 'all') segments.push('category', location.category);
+    if (location.fileId) segments.push('files', location.fileId);
+    path = '/' + segments.map(encodeURIComponent).join('/');
+    if (location.query) params.set('q', location.query);
+    if (location.sortBy !== DEFAULT_LOCATION.sortBy || location.sortOrder !== DEFAULT_LOCATION.sortOrder) params.set('sort', `${location.sortBy}:${location.sortOrder}`);
+    if (location.tag) params.set('tag', location.tag);
+    if (location.scope !== DEFAULT_LOCATION.scope) params.set('scope', location.scope);
+  }
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+// The bare hive root, which signed-out visitors see as the landing page
+export const isRootLocation = (location: HiveLocation): boolean => formatRoute({ page: 'hive', location }) === '/';
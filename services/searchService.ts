@@ -0,0 +1,144 @@
+
+import { BeeFile } from '../types';
+import { getFileBlob, saveContentIndex, getIndexedFileIds, countIndexedDocuments, queryPostings, getIndexedDocuments, Posting } from './storageService';
+import { isEncryptionEnabled } from './cryptoService';
+import { tokenize } from './tokenizer';
+import { runJob, JobOptions, isAbortError } from './workerPool';
+
+const TEXT_TYPES = [
+  'text/plain', 'text/markdown', 'application/json', 'application/javascript',
+  'text/javascript', 'text/css', 'text/html', 'application/xml', 'text/csv'
+];
+const TEXT_EXTENSIONS = ['.txt', '.md', '.js', '.json', '.css', '.html', '.ts', '.tsx', '.py', '.java', '.c', '.cpp', '.xml', '.yaml', '.yml'];
+
+// Only the head of very large files is indexed
+const MAX_INDEXED_CHARS = 1_000_000;
+
+// BM25 parameters, plus the discount for a query token that only matches as a prefix
+const K1 = 1.2;
+const B = 0.75;
+const PREFIX_WEIGHT = 0.6;
+// A hit in the file name outranks all but the strongest content matches
+const NAME_MATCH_SCORE = 10;
+
+// Snippets are only built for the best hits; the rest are ranked without loading text
+const SNIPPET_LIMIT = 50;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 100;
+
+export interface SnippetSegment {
+  text: string;
+  hit: boolean;
+}
+
+export interface ContentMatch {
+  fileId: string;
+  score: number;
+  snippet?: SnippetSegment[];
+}
+
+export const isTextFile = (name: string, type: string): boolean => {
+  return TEXT_TYPES.includes(type) || TEXT_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+};
+
+// Encrypted hives are never indexed: the index is stored as plaintext
+const isIndexable = (file: BeeFile) => !file.encrypted && !isEncryptionEnabled(file.ownerId) && isTextFile(file.name, file.type);
+
+// Pass the plaintext when the caller already has it, as uploads do. Tokenizing runs in a processing worker.
+export const indexFile = async (file: BeeFile, content?: Blob, options?: JobOptions): Promise<void> => {
+  if (!isIndexable(file)) return;
+  const blob = content || await getFileBlob(file);
+  const { text, terms, length } = await runJob('extractText', { blob, maxChars: MAX_INDEXED_CHARS }, options);
+  const postings: Posting[] = terms.map(([term, tf]) => ({ ownerId: file.ownerId, term, fileId: file.id, tf, length }));
+  await saveContentIndex({ fileId: file.id, ownerId: file.ownerId, text }, postings);
+};
+
+// Catches up on files stored before indexing existed or brought in by an import, behind anything more urgent
+export const indexMissingFiles = async (ownerId: string, files: BeeFile[], signal?: AbortSignal): Promise<void> => {
+  const indexed = new Set(await getIndexedFileIds(ownerId));
+  for (const file of files) {
+    if (signal?.aborted) return;
+    if (indexed.has(file.id) || !isIndexable(file)) continue;
+    await indexFile(file, undefined, { priority: 'low', signal }).catch(err => {
+      if (!isAbortError(err)) console.error(`Indexing ${file.name} failed:`, err);
+    });
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildSnippet = (text: string, tokens: string[]): SnippetSegment[] | undefined => {
+  // Query tokens match at the start of a word, as they do in the index
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${tokens.map(escapeRegExp).join('|')})[\\p{L}\\p{N}_]*`, 'giu');
+  const first = pattern.exec(text);
+  if (!first) return undefined;
+  const start = Math.max(first.index - SNIPPET_BEFORE, 0);
+  const end = Math.min(first.index + SNIPPET_AFTER, text.length);
+  const window = text.slice(start, end).replace(/\s+/g, ' ');
+  const segments: SnippetSegment[] = [];
+  let cursor = 0;
+  for (const match of window.matchAll(pattern)) {
+    if (match.index > cursor) segments.push({ text: window.slice(cursor, match.index), hit: false });
+    segments.push({ text: match[0], hit: true });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < window.length) segments.push({ text: window.slice(cursor), hit: false });
+  if (start > 0) segments.unshift({ text: '…', hit: false });
+  if (end < text.length) segments.push({ text: '…', hit: false });
+  return segments;
+};
+
+export const matchesName = (name: string, query: string): boolean => name.toLowerCase().includes(query.trim().toLowerCase());
+
+export const relevance = (name: string, query: string, match?: ContentMatch): number => {
+  return (matchesName(name, query) ? NAME_MATCH_SCORE : 0) + (match?.score ?? 0);
+};
+
+// Every query token must match (as a word or word prefix); results are ranked by BM25
+export const searchContent = async (ownerId: string, query: string): Promise<Map<string, ContentMatch>> => {
+  const tokens = Array.from(new Set(tokenize(query)));
+  const results = new Map<string, ContentMatch>();
+  if (tokens.length === 0) return results;
+
+  const [total, perToken] = await Promise.all([
+    countIndexedDocuments(ownerId),
+    Promise.all(tokens.map(t => queryPostings(ownerId, t)))
+  ]);
+
+  // Documents matching every token, with the postings that got them there
+  let candidates: Map<string, Posting[]> | null = null;
+  for (const postings of perToken) {
+    const byFile = new Map<string, Posting[]>();
+    postings.forEach(p => {
+      if (candidates && !candidates.has(p.fileId)) return;
+      byFile.set(p.fileId, [...(byFile.get(p.fileId) || candidates?.get(p.fileId) || []), p]);
+    });
+    candidates = byFile;
+  }
+  if (!candidates || candidates.size === 0) return results;
+
+  const docFrequency = new Map<string, number>();
+  perToken.flat().forEach(p => docFrequency.set(p.term, (docFrequency.get(p.term) || 0) + 1));
+  // Averaged over the candidates rather than the whole index, which would mean a full scan
+  const lengths = Array.from(candidates.values(), postings => postings[0].length);
+  const avgLength = lengths.reduce((acc, l) => acc + l, 0) / lengths.length || 1;
+
+  candidates.forEach((postings, fileId) => {
+    const score = postings.reduce((acc, p) => {
+      const df = docFrequency.get(p.term) || 1;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const tf = (p.tf * (K1 + 1)) / (p.tf + K1 * (1 - B + B * p.length / avgLength));
+      const weight = tokens.includes(p.term) ? 1 : PREFIX_WEIGHT;
+      return acc + weight * idf * tf;
+    }, 0);
+    results.set(fileId, { fileId, score });
+  });
+
+  const best = Array.from(results.values()).sort((a, b) => b.score - a.score).slice(0, SNIPPET_LIMIT);
+  const docs = await getIndexedDocuments(best.map(m => m.fileId));
+  docs.forEach(doc => {
+    const match = results.get(doc.fileId);
+    if (match) match.snippet = buildSnippet(doc.text, tokens);
+  });
+  return results;
+};
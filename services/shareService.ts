@@ -0,0 +1,119 @@
+import { BeeFile, BeeFolder, BeeShare, ShareTargetKind, User } from '../types';
+import { getShare, getOwnerShares, saveShare, deleteShares, recordShareAccess, getFileRecord, getFolders, getMetadata } from './storageService';
+import { createCredentials, checkCredentials } from './authService';
+import { isEncryptionEnabled } from './cryptoService';
+import { isTrashed } from './trashService';
+import { getDescendantFolderIds } from './folderService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_BYTES = 24;
+const ROUTE_PREFIX = '#/share/';
+
+export const SHARE_EXPIRY_OPTIONS: [string, number][] = [
+  ['1 day', DAY_MS],
+  ['7 days', 7 * DAY_MS],
+  ['30 days', 30 * DAY_MS],
+];
+
+export type ShareErrorCode = 'missing' | 'expired' | 'password' | 'unavailable';
+
+export class ShareError extends Error {
+  code: ShareErrorCode;
+
+  constructor(code: ShareErrorCode, message: string) {
+    super(message);
+    this.name = 'ShareError';
+    this.code = code;
+  }
+}
+
+export interface ShareOptions {
+  expiresInMs: number;
+  password?: string; // Empty or absent for an open link
+}
+
+// What a recipient sees: the files under the shared target, and for folder shares the folders they sit in
+export interface SharedContent {
+  share: BeeShare;
+  files: BeeFile[];
+  folders: BeeFolder[];
+}
+
+const randomToken = () => Array.from(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)), b => b.toString(16).padStart(2, '0')).join('');
+
+const hasPassword = (share: BeeShare) => !!(share.passwordHash && share.salt && share.iterations);
+
+export const isShareExpired = (share: BeeShare, now = Date.now()): boolean => now >= share.expiresAt;
+
+// The token rides in the fragment, which browsers never send to a server
+export const getShareUrl = (token: string): string => `${location.origin}${location.pathname}${location.search}${ROUTE_PREFIX}${token}`;
+
+export const getShareTokenFromUrl = (): string | null => {
+  return location.hash.startsWith(ROUTE_PREFIX) ? location.hash.slice(ROUTE_PREFIX.length) || null : null;
+};
+
+// Recipients have no key to an encrypted hive, so its content can't be shared
+export const createShare = async (owner: User, target: BeeFile | BeeFolder, targetKind: ShareTargetKind, { expiresInMs, password }: ShareOptions): Promise<BeeShare> => {
+  if (isEncryptionEnabled(owner.id)) {
+    throw new ShareError('unavailable', 'Encrypted hives cannot be shared. Recipients would have no key to open the files.');
+  }
+  const now = Date.now();
+  const share: BeeShare = {
+    token: randomToken(),
+    ownerId: owner.id,
+    ownerName: owner.name,
+    targetId: target.id,
+    targetKind,
+    name: target.name,
+    createdAt: now,
+    expiresAt: now + expiresInMs,
+    accessCount: 0,
+    ...(password ? await createCredentials(password) : {})
+  };
+  await saveShare(share);
+  return share;
+};
+
+// Newest first
+export const listShares = async (ownerId: string): Promise<BeeShare[]> => {
+  return (await getOwnerShares(ownerId)).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const revokeShare = (token: string): Promise<void> => deleteShares([token]);
+
+const findLiveShare = async (token: string): Promise<BeeShare> => {
+  const share = await getShare(token);
+  if (!share) throw new ShareError('missing', 'This link does not exist or has been revoked.');
+  if (isShareExpired(share)) throw new ShareError('expired', `This link expired on ${new Date(share.expiresAt).toLocaleDateString()}.`);
+  return share;
+};
+
+// Checks the link before asking for anything; resolves whether a password is needed
+export const requiresSharePassword = async (token: string): Promise<boolean> => hasPassword(await findLiveShare(token));
+
+const loadContent = async (share: BeeShare): Promise<Omit<SharedContent, 'share'>> => {
+  if (share.targetKind === 'file') {
+    const file = await getFileRecord(share.targetId);
+    if (!file || isTrashed(file)) throw new ShareError('missing', 'The shared file is no longer in the hive.');
+    if (file.encrypted) throw new ShareError('unavailable', 'The shared file has since been encrypted and cannot be opened from a link.');
+    return { files: [file], folders: [] };
+  }
+  const folders = await getFolders(share.ownerId);
+  if (!folders.some(f => f.id === share.targetId)) throw new ShareError('missing', 'The shared cell is no longer in the hive.');
+  const folderIds = new Set(getDescendantFolderIds(folders, share.targetId));
+  const files = (await getMetadata(share.ownerId)).filter(f => f.parentId !== null && folderIds.has(f.parentId) && !isTrashed(f) && !f.encrypted);
+  return { files, folders: folders.filter(f => folderIds.has(f.id)) };
+};
+
+// Opens the link for a recipient and counts the visit. The target is read live,
+// so a folder share shows what the folder holds now, not when it was shared.
+export const openShare = async (token: string, password = ''): Promise<SharedContent> => {
+  const share = await findLiveShare(token);
+  if (hasPassword(share) && !(await checkCredentials({ passwordHash: share.passwordHash!, salt: share.salt!, iterations: share.iterations! }, password))) {
+    throw new ShareError('password', 'Wrong password for this link.');
+  }
+  const content = await loadContent(share);
+  const visited = await recordShareAccess(token);
+  if (!visited) throw new ShareError('missing', 'This link does not exist or has been revoked.');
+  return { share: visited, ...content };
+};
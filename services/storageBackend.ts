@@ -0,0 +1,133 @@
+
+// The contract every place the hive can live in implements. storageService
+// holds all hive logic (content addressing, versions, reference counting) on
+// top of it, so a backend only has to store blobs and keyed records.
+
+export type RecordStoreName = 'metadata' | 'folders' | 'versions' | 'contentDocs' | 'postings' | 'thumbnails' | 'shares' | 'jobs' | 'aiCache';
+export type StoreName = RecordStoreName | 'blobs';
+
+// The subset of IndexedDB keys the hive uses. Numbers sort before strings, strings before arrays.
+export type StorageKey = string | number | StorageKey[];
+
+export interface KeyRange {
+  lower: StorageKey;
+  upper: StorageKey; // Both ends inclusive
+}
+
+export type KeyQuery = StorageKey | KeyRange;
+
+export interface StoreSchema {
+  keyPath: string | string[];
+  indexes: string[]; // Each index is on the record field of the same name
+}
+
+// Shared by every backend so that queries behave the same everywhere
+export const STORE_SCHEMA: Record<RecordStoreName, StoreSchema> = {
+  metadata: { keyPath: 'id', indexes: ['ownerId', 'category', 'name', 'lastModified', 'blobId'] },
+  folders: { keyPath: 'id', indexes: ['ownerId'] },
+  versions: { keyPath: 'id', indexes: ['fileId', 'ownerId', 'blobId'] },
+  contentDocs: { keyPath: 'fileId', indexes: ['ownerId'] },
+  // Keyed owner-first so a term prefix is one key range
+  postings: { keyPath: ['ownerId', 'term', 'fileId'], indexes: ['fileId'] },
+  // Keyed by content, so versions and duplicates share one thumbnail and it goes when the blob does
+  thumbnails: { keyPath: 'blobId', indexes: [] },
+  shares: { keyPath: 'token', indexes: ['ownerId'] },
+  jobs: { keyPath: 'id', indexes: ['ownerId'] },
+  aiCache: { keyPath: 'id', indexes: ['ownerId'] },
+};
+
+// Stands in for a blob kept outside the backend, in the Origin Private File System
+export interface BlobRef {
+  location: 'opfs';
+  path: string;
+  size: number;
+}
+
+export type StoredBlob = Blob | BlobRef;
+
+export const isBlobRef = (stored: StoredBlob | undefined): stored is BlobRef => !!stored && !(stored instanceof Blob) && stored.location === 'opfs';
+
+// Record reads return results in key order, or index key then primary key order when an index is given
+export interface StorageTransaction {
+  getBlob: (id: string) => Promise<StoredBlob | undefined>;
+  hasBlob: (id: string) => Promise<boolean>;
+  putBlob: (id: string, blob: StoredBlob) => Promise<void>;
+  deleteBlob: (id: string) => Promise<void>;
+  listBlobIds: () => Promise<string[]>;
+  get: <T>(store: RecordStoreName, key: StorageKey) => Promise<T | undefined>;
+  getAll: <T>(store: RecordStoreName, query?: KeyQuery, index?: string) => Promise<T[]>;
+  getAllKeys: (store: RecordStoreName, query?: KeyQuery, index?: string) => Promise<StorageKey[]>;
+  count: (store: RecordStoreName, query?: KeyQuery, index?: string) => Promise<number>;
+  put: <T>(store: RecordStoreName, record: T) => Promise<void>;
+  delete: (store: RecordStoreName, query: KeyQuery) => Promise<void>;
+  clear: (store: RecordStoreName) => Promise<void>;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  readonly persistent: boolean; // False when everything is gone on reload
+  // Runs the callback atomically: all of its writes land, or none do if it throws
+  // or the signal aborts. Only await this transaction's own operations inside it;
+  // anything else (hashing, crypto) belongs before or after.
+  transaction: <T>(stores: StoreName[], mode: 'readonly' | 'readwrite', run: (tx: StorageTransaction) => Promise<T>, signal?: AbortSignal) => Promise<T>;
+}
+
+export const keyRange = (lower: StorageKey, upper: StorageKey): KeyRange => ({ lower, upper });
+
+export const isKeyRange = (query: KeyQuery): query is KeyRange => typeof query === 'object' && !Array.isArray(query);
+
+const keyRank = (key: StorageKey) => (typeof key === 'number' ? 0 : typeof key === 'string' ? 1 : 2);
+
+// IndexedDB key order, for backends that have to sort themselves
+export const compareKeys = (a: StorageKey, b: StorageKey): number => {
+  const rank = keyRank(a) - keyRank(b);
+  if (rank !== 0) return rank;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const comp = compareKeys(a[i], b[i]);
+      if (comp !== 0) return comp;
+    }
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+export const matchesKey = (key: StorageKey, query: KeyQuery): boolean => isKeyRange(query)
+  ? compareKeys(key, query.lower) >= 0 && compareKeys(key, query.upper) <= 0
+  : compareKeys(key, query) === 0;
+
+export class UnknownBackendError extends Error {
+  constructor(name: string) {
+    super(`No storage backend named "${name}" is registered.`);
+    this.name = 'UnknownBackendError';
+  }
+}
+
+const DEFAULT_BACKEND = 'indexeddb';
+const factories = new Map<string, () => StorageBackend>();
+let active: StorageBackend | null = null;
+
+export const registerStorageBackend = (name: string, factory: () => StorageBackend) => {
+  factories.set(name, factory);
+};
+
+// ?storage=<name> in the URL wins (e.g. ?storage=memory for a throwaway demo),
+// then STORAGE_BACKEND from the build environment, then IndexedDB
+export const getConfiguredBackendName = (): string => {
+  const fromUrl = typeof location !== 'undefined' ? new URLSearchParams(location.search).get('storage') : null;
+  return fromUrl || process.env.STORAGE_BACKEND || DEFAULT_BACKEND;
+};
+
+export const getStorageBackend = (): StorageBackend => {
+  if (active) return active;
+  const name = getConfiguredBackendName();
+  const factory = factories.get(name);
+  if (!factory) throw new UnknownBackendError(name);
+  active = factory();
+  return active;
+};
+
+// Swaps the backend in use, e.g. a fresh in-memory one per test
+export const setStorageBackend = (backend: StorageBackend) => {
+  active = backend;
+};
@@ -1,22 +1,151 @@
 
-import { BeeFile, FileCategory } from '../types';
-
-const DB_NAME = 'BeeFileStoreDB';
-const STORE_NAME = 'files';
-const META_KEY = 'bee_file_metadata';
-
-const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
-    };
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+import { AiCacheEntry, ArchiveImportMode, BeeFile, BeeFileVersion, BeeFolder, BeeShare, FileCategory, PendingJob } from '../types';
+import { getDataKey, encryptBlob, decryptBlob, isEncryptionEnabled, HiveLockedError } from './cryptoService';
+import { toVersion, getVersionNumber, sortVersions } from './versionService';
+import { StorageTransaction, StoreName, RecordStoreName, KeyQuery, BlobRef, StoredBlob, STORE_SCHEMA, keyRange, isKeyRange, isBlobRef, getStorageBackend, registerStorageBackend } from './storageBackend';
+import { createIndexedDbBackend } from './indexedDbBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { isOpfsSupported, writeOpfsFile, readOpfsFile, removeOpfsFiles, sweepOpfsFiles } from './opfsStore';
+import { runJob, JobOptions } from './workerPool';
+import { HiveChange, RecordChanges, publishHiveChange } from './syncService';
+
+registerStorageBackend('indexeddb', createIndexedDbBackend);
+registerStorageBackend('memory', createMemoryBackend);
+
+export type MetadataIndex = 'ownerId' | 'category' | 'name' | 'lastModified' | 'blobId';
+
+// False for backends that lose everything on reload, like the in-memory demo one
+export const isPersistentStorage = (): boolean => getStorageBackend().persistent;
+
+// Content at least this big goes to OPFS instead of the backend's own blob store
+const LARGE_BLOB_BYTES = 32 * 1024 * 1024;
+
+// Encryption and the fallback path hold a whole file in memory; streamed uploads don't
+const IN_MEMORY_UPLOAD_BYTES = 300 * 1024 * 1024;
+const STREAMED_UPLOAD_BYTES = 4 * 1024 * 1024 * 1024;
+
+// OPFS outlives a reload, so pairing it with a throwaway backend would only leak files
+const usesOpfs = () => isPersistentStorage() && isOpfsSupported();
+
+// Without an owner, the limit for a hive that isn't encrypted
+export const getUploadLimit = (ownerId?: string): number => {
+  return usesOpfs() && !(ownerId && isEncryptionEnabled(ownerId)) ? STREAMED_UPLOAD_BYTES : IN_MEMORY_UPLOAD_BYTES;
+};
+
+// Stores that other open tabs mirror in state, see syncService
+const SYNCED_STORES: RecordStoreName[] = ['metadata', 'folders', 'versions', 'thumbnails'];
+
+// What one transaction wrote to the synced stores: per key the last write wins, null meaning deleted
+type ChangeLog = Map<RecordStoreName, Map<string, unknown>>;
+
+const toHiveChange = (log: ChangeLog, reset: boolean): HiveChange => {
+  const entries = (store: RecordStoreName) => Array.from(log.get(store) || []);
+  const changes = <R>(store: RecordStoreName): RecordChanges<R> => ({
+    saved: entries(store).filter(([, record]) => record !== null).map(([, record]) => record as R),
+    removed: entries(store).filter(([, record]) => record === null).map(([key]) => key)
   });
+  return {
+    files: changes('metadata'),
+    folders: changes('folders'),
+    versions: changes('versions'),
+    thumbnails: changes('thumbnails').saved.map(record => (record as StoredThumbnail).blobId),
+    reset
+  };
+};
+
+// OPFS files can't join a backend transaction, so they are written before it
+// (staged) and deleted after it. Staged files the transaction didn't store, and
+// files of blobs it deleted, are removed once the outcome is known. A deleted
+// blob's thumbnail goes in the same transaction. Once a write commits, other
+// tabs are told what changed.
+const transact = async <T>(stores: StoreName[], mode: 'readonly' | 'readwrite', run: (tx: StorageTransaction) => Promise<T>, signal?: AbortSignal, staged: BlobRef[] = []): Promise<T> => {
+  const claimed = new Set<string>();
+  const released: string[] = [];
+  const log: ChangeLog = new Map();
+  let reset = false;
+  const logWrite = (store: RecordStoreName, key: string, record: unknown) => {
+    if (!SYNCED_STORES.includes(store)) return;
+    if (!log.has(store)) log.set(store, new Map());
+    log.get(store)!.set(key, record);
+  };
+  let result: T;
+  try {
+    result = await getStorageBackend().transaction(stores, mode, tx => run({
+      ...tx,
+      putBlob: async (id, blob) => {
+        await tx.putBlob(id, blob);
+        if (isBlobRef(blob)) claimed.add(blob.path);
+      },
+      deleteBlob: async id => {
+        const stored = await tx.getBlob(id);
+        await tx.deleteBlob(id);
+        await tx.delete('thumbnails', id);
+        if (isBlobRef(stored)) released.push(stored.path);
+      },
+      put: async (store, record) => {
+        await tx.put(store, record);
+        logWrite(store, (record as Record<string, string>)[STORE_SCHEMA[store].keyPath as string], record);
+      },
+      delete: async (store, query) => {
+        await tx.delete(store, query);
+        // Key ranges only ever hit the index stores
+        if (!isKeyRange(query)) logWrite(store, String(query), null);
+      },
+      clear: async store => {
+        await tx.clear(store);
+        if (SYNCED_STORES.includes(store)) reset = true;
+      }
+    }), signal);
+  } catch (err) {
+    await removeOpfsFiles(staged.map(ref => ref.path)).catch(() => undefined);
+    throw err;
+  }
+  await removeOpfsFiles([...released, ...staged.filter(ref => !claimed.has(ref.path)).map(ref => ref.path)]).catch(() => undefined);
+  // Other tabs of a throwaway backend have hives of their own
+  if ((log.size || reset) && isPersistentStorage()) publishHiveChange(toHiveChange(log, reset));
+  return result;
+};
+
+// Moves large content out to OPFS ahead of the transaction that stores it
+const stageBlob = async (blob: Blob, signal?: AbortSignal): Promise<StoredBlob> => {
+  return blob.size >= LARGE_BLOB_BYTES && usesOpfs() ? writeOpfsFile(blob, { signal }) : blob;
+};
+
+const resolveBlob = (stored: StoredBlob, type?: string): Promise<Blob> | Blob => {
+  return isBlobRef(stored) ? readOpfsFile(stored, type) : stored;
+};
+
+const readAll = <T>(store: RecordStoreName, query?: KeyQuery, index?: string): Promise<T[]> => {
+  return transact([store], 'readonly', tx => tx.getAll<T>(store, query, index));
+};
+
+// Every store whose records reference blobs; transactions that release blobs span all of them
+const BLOB_STORES: StoreName[] = ['blobs', 'metadata', 'versions', 'thumbnails'];
+const INDEX_STORES: StoreName[] = ['contentDocs', 'postings'];
+
+// Deletes each blob in the set that no file or version references any more.
+// Must run inside a transaction that already applied the record changes.
+const releaseBlobs = async (tx: StorageTransaction, blobIds: string[]) => {
+  await Promise.all(Array.from(new Set(blobIds), async blobId => {
+    const refs = await tx.count('metadata', blobId, 'blobId') + await tx.count('versions', blobId, 'blobId');
+    if (refs === 0) await tx.deleteBlob(blobId);
+  }));
+};
+
+// Removes the full-text entries of the given files
+const removeIndexEntries = async (tx: StorageTransaction, fileIds: string[]) => {
+  await Promise.all(fileIds.map(async fileId => {
+    await tx.delete('contentDocs', fileId);
+    const keys = await tx.getAllKeys('postings', fileId, 'fileId');
+    await Promise.all(keys.map(key => tx.delete('postings', key)));
+  }));
+};
+
+// Drops a file's oldest versions beyond the cap, releasing their blobs
+const pruneVersions = async (tx: StorageTransaction, fileId: string, maxVersions: number) => {
+  const excess = sortVersions(await tx.getAll<BeeFileVersion>('versions', fileId, 'fileId')).slice(maxVersions);
+  await Promise.all(excess.map(v => tx.delete('versions', v.id)));
+  await releaseBlobs(tx, excess.map(v => v.blobId));
 };
 
 export const detectCategory = (mimeType: string): FileCategory => {
@@ -26,46 +155,493 @@ export const detectCategory = (mimeType: string): FileCategory => {
   return 'others';
 };
 
-export const saveFileBlob = async (id: string, blob: Blob): Promise<void> => {
-  const db = await initDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(blob, id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+export interface SaveFileOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number) => void;
+  asNewVersion?: boolean; // Supersede a live file of the same name in the same folder instead of adding a sibling
+  maxVersions?: number; // Cap on superseded versions kept for that file
+}
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+// Streams the source so callers get byte progress and can cancel between chunks
+const readBlob = async (blob: Blob, { signal, onProgress }: SaveFileOptions): Promise<Blob> => {
+  const reader = blob.stream().getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  while (true) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      throw abortError();
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress?.(loaded);
+  }
+  return new Blob(chunks, { type: blob.type });
+};
+
+// Hashing runs in a processing worker; callers waiting on it pass priority 'high'
+export const hashBlob = (blob: Blob, options?: JobOptions): Promise<string> => runJob('hash', { blob }, options);
+
+// Writes a large plaintext upload straight to OPFS from a processing worker, hashing and reporting each chunk on the way
+const streamToOpfs = (blob: Blob, { signal, onProgress }: SaveFileOptions): Promise<{ hash: string; ref: BlobRef }> => {
+  return runJob('storeToOpfs', { blob }, { priority: 'high', signal, onProgress });
+};
+
+export interface SaveFileResult {
+  file: BeeFile;
+  deduplicated: boolean;
+  superseded: boolean; // An existing record's content was archived as a version
+}
+
+// Encrypted blobs are only shared within one owner's hive, since each owner has their own key
+const contentAddress = (hash: string, ownerId: string, encrypted: boolean) => encrypted ? `${ownerId}:${hash}` : hash;
+
+// Stores the content under its SHA-256 hash and writes the metadata record in
+// the same transaction, so a blob is never visible without a reference to it.
+// With asNewVersion, a same-named live file in the same folder is looked up in
+// that transaction too, and its current content is archived as a version.
+// Large plaintext uploads stream to OPFS without ever being held in memory.
+export const saveFileBlob = async (record: Omit<BeeFile, 'blobId' | 'hash' | 'encrypted' | 'version'>, blob: Blob, options: SaveFileOptions = {}): Promise<SaveFileResult> => {
+  const key = getDataKey(record.ownerId);
+  let hash: string;
+  let data: StoredBlob;
+  if (!key && blob.size >= LARGE_BLOB_BYTES && usesOpfs()) {
+    ({ hash, ref: data } = await streamToOpfs(blob, options));
+  } else {
+    const plaintext = await readBlob(blob, options);
+    hash = await hashBlob(plaintext, { priority: 'high', signal: options.signal });
+    data = await stageBlob(key ? await encryptBlob(key, plaintext) : plaintext, options.signal);
+  }
+  const staged = isBlobRef(data) ? [data] : [];
+  if (options.signal?.aborted) {
+    await removeOpfsFiles(staged.map(ref => ref.path)).catch(() => undefined);
+    throw abortError();
+  }
+  let file: BeeFile = { ...record, blobId: contentAddress(hash, record.ownerId, !!key), hash, ...(key ? { encrypted: true } : {}) };
+  try {
+    return await transact(BLOB_STORES, 'readwrite', async tx => {
+      const deduplicated = await tx.hasBlob(file.blobId);
+      if (!deduplicated) await tx.putBlob(file.blobId, data);
+      const previous = options.asNewVersion
+        ? (await tx.getAll<BeeFile>('metadata', file.name, 'name')).find(f => f.ownerId === file.ownerId && f.parentId === file.parentId && f.deletedAt === undefined)
+        : undefined;
+      if (previous) {
+        await tx.put('versions', toVersion(previous));
+        // Keep whatever else the record carries; only the content fields change hands
+        const { hash: _hash, encrypted: _encrypted, ...kept } = previous;
+        file = { ...kept, ...file, id: previous.id, version: getVersionNumber(previous) + 1 };
+      }
+      await tx.put('metadata', file);
+      if (previous && options.maxVersions !== undefined) await pruneVersions(tx, file.id, options.maxVersions);
+      return { file, deduplicated, superseded: !!previous };
+    }, options.signal, staged);
+  } catch (err) {
+    if (options.signal?.aborted) throw abortError();
+    throw err;
+  }
+};
+
+// Anything that points at stored content: a file's current version or an archived one
+type StoredContent = Pick<BeeFile, 'blobId' | 'encrypted' | 'ownerId' | 'type'>;
+
+export const getFileBlob = async (file: StoredContent): Promise<Blob> => {
+  const stored = await transact(['blobs'], 'readonly', tx => tx.getBlob(file.blobId));
+  if (!stored) throw new Error(`Blob ${file.blobId} is missing from the hive.`);
+  if (!file.encrypted) return resolveBlob(stored, file.type);
+  const key = getDataKey(file.ownerId);
+  if (!key) throw new HiveLockedError();
+  return decryptBlob(key, await resolveBlob(stored), file.type);
+};
+
+// Rewrites an owner's plaintext blobs, current and archived, as ciphertext after encryption is switched on
+export const encryptExistingFiles = async (ownerId: string, onProgress?: (done: number, total: number) => void): Promise<void> => {
+  const key = getDataKey(ownerId);
+  if (!key) return;
+  // The content index and AI answers are plaintext, so they go before anything is sealed
+  await clearOwnerIndex(ownerId);
+  await clearAiCache(ownerId);
+  const pending: [RecordStoreName, BeeFile | BeeFileVersion][] = [
+    ...(await getMetadata(ownerId)).filter(f => !f.encrypted).map(f => ['metadata', f] as [RecordStoreName, BeeFile]),
+    ...(await getOwnerVersions(ownerId)).filter(v => !v.encrypted).map(v => ['versions', v] as [RecordStoreName, BeeFileVersion])
+  ];
+  for (let i = 0; i < pending.length; i++) {
+    const [storeName, record] = pending[i];
+    const plaintext = await getFileBlob(record);
+    const hash = record.hash || await hashBlob(plaintext);
+    const ciphertext = await stageBlob(await encryptBlob(key, plaintext));
+    // BeeAI's description of the content is plaintext too, and describes bytes now sealed
+    const { classification: _classification, ...kept } = record as BeeFile;
+    const updated = { ...kept, blobId: contentAddress(hash, ownerId, true), hash, encrypted: true };
+    await transact(BLOB_STORES, 'readwrite', async tx => {
+      if (!(await tx.hasBlob(updated.blobId))) await tx.putBlob(updated.blobId, ciphertext);
+      await tx.put(storeName, updated);
+      await releaseBlobs(tx, [record.blobId]);
+    }, undefined, isBlobRef(ciphertext) ? [ciphertext] : []);
+    onProgress?.(i + 1, pending.length);
+  }
+};
+
+// Removes the blob only once no file or version points at it any more
+export const deleteFileBlob = async (id: string): Promise<void> => {
+  await transact(BLOB_STORES, 'readwrite', tx => releaseBlobs(tx, [id]));
+};
+
+// Removes the records with all their versions and index entries, and releases their blobs atomically.
+// The stored records decide, not the ones passed in, which another tab may have changed since:
+// with onlyIf, files whose current record fails it are kept. Resolves the ids actually removed.
+export const deleteFiles = async (files: BeeFile[], onlyIf?: (current: BeeFile) => boolean): Promise<string[]> => {
+  return transact(BLOB_STORES.concat(INDEX_STORES), 'readwrite', async tx => {
+    const current = (await Promise.all(files.map(f => tx.get<BeeFile>('metadata', f.id))))
+      .filter((f): f is BeeFile => f !== undefined && (!onlyIf || onlyIf(f)));
+    await Promise.all(current.map(f => tx.delete('metadata', f.id)));
+    await removeIndexEntries(tx, current.map(f => f.id));
+    const archived = (await Promise.all(current.map(f => tx.getAll<BeeFileVersion>('versions', f.id, 'fileId')))).flat();
+    await Promise.all(archived.map(v => tx.delete('versions', v.id)));
+    await releaseBlobs(tx, [...current.map(f => f.blobId), ...archived.map(v => v.blobId)]);
+    return current.map(f => f.id);
   });
 };
 
-export const getFileBlob = async (id: string): Promise<Blob> => {
-  const db = await initDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+export const getVersions = (fileId: string): Promise<BeeFileVersion[]> => readAll('versions', fileId, 'fileId');
+
+export const getOwnerVersions = (ownerId: string): Promise<BeeFileVersion[]> => readAll('versions', ownerId, 'ownerId');
+
+export const deleteVersions = async (versions: BeeFileVersion[]): Promise<void> => {
+  await transact(BLOB_STORES, 'readwrite', async tx => {
+    await Promise.all(versions.map(v => tx.delete('versions', v.id)));
+    await releaseBlobs(tx, versions.map(v => v.blobId));
   });
 };
 
-export const deleteFileBlob = async (id: string): Promise<void> => {
-  const db = await initDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+// Makes an archived version current again as a new version on top, so the history stays linear.
+// Works from the stored file, which may have moved on since the caller read it.
+export const restoreVersion = async (fileId: string, version: BeeFileVersion, uploadedBy: string, maxVersions?: number): Promise<BeeFile> => {
+  return transact(BLOB_STORES, 'readwrite', async tx => {
+    const [file, archived] = await Promise.all([tx.get<BeeFile>('metadata', fileId), tx.get<BeeFileVersion>('versions', version.id)]);
+    if (!file) throw new Error('The file is no longer in the hive.');
+    if (!archived) throw new Error(`Version ${version.version} is no longer in the hive.`);
+    const { hash: _hash, encrypted: _encrypted, ...kept } = file;
+    const restored: BeeFile = {
+      ...kept,
+      blobId: archived.blobId,
+      ...(archived.hash ? { hash: archived.hash } : {}),
+      ...(archived.encrypted ? { encrypted: true } : {}),
+      type: archived.type,
+      size: archived.size,
+      lastModified: archived.lastModified,
+      version: getVersionNumber(file) + 1,
+      uploadedAt: Date.now(),
+      uploadedBy
+    };
+    await tx.put('versions', toVersion(file));
+    await tx.put('metadata', restored);
+    if (maxVersions !== undefined) await pruneVersions(tx, file.id, maxVersions);
+    return restored;
+  });
+};
+
+export const queryMetadata = (index: MetadataIndex, query: KeyQuery): Promise<BeeFile[]> => readAll('metadata', query, index);
+
+export const getMetadata = (ownerId: string): Promise<BeeFile[]> => queryMetadata('ownerId', ownerId);
+
+export const getFileRecord = (id: string): Promise<BeeFile | undefined> => {
+  return transact(['metadata'], 'readonly', tx => tx.get<BeeFile>('metadata', id));
+};
+
+// Upserts the given records; untouched records are left as they are
+export const saveMetadata = async (files: BeeFile[]): Promise<void> => {
+  await transact(['metadata'], 'readwrite', async tx => { await Promise.all(files.map(f => tx.put('metadata', f))); });
+};
+
+// Read-modify-write of the stored records in one transaction, so a change made in
+// another tab meanwhile is built on rather than overwritten. change returns the
+// record unchanged to skip it; ids no longer stored are skipped too. Resolves the
+// records that were written.
+export const updateFiles = (ids: string[], change: (current: BeeFile) => BeeFile): Promise<BeeFile[]> => {
+  return transact(['metadata'], 'readwrite', async tx => {
+    const updated = await Promise.all(ids.map(async id => {
+      const current = await tx.get<BeeFile>('metadata', id);
+      if (!current) return null;
+      const next = change(current);
+      if (next === current) return null;
+      await tx.put('metadata', next);
+      return next;
+    }));
+    return updated.filter((f): f is BeeFile => f !== null);
   });
 };
 
-export const getMetadata = (): BeeFile[] => {
-  const data = localStorage.getItem(META_KEY);
-  return data ? JSON.parse(data) : [];
+export const deleteMetadata = async (ids: string[]): Promise<void> => {
+  await transact(['metadata'], 'readwrite', async tx => { await Promise.all(ids.map(id => tx.delete('metadata', id))); });
 };
 
-export const saveMetadata = (files: BeeFile[]) => {
-  localStorage.setItem(META_KEY, JSON.stringify(files));
+export const getFolders = (ownerId: string): Promise<BeeFolder[]> => readAll('folders', ownerId, 'ownerId');
+
+export const saveFolders = async (folders: BeeFolder[]): Promise<void> => {
+  await transact(['folders'], 'readwrite', async tx => { await Promise.all(folders.map(f => tx.put('folders', f))); });
+};
+
+export const deleteFolders = async (ids: string[]): Promise<void> => {
+  await transact(['folders'], 'readwrite', async tx => { await Promise.all(ids.map(id => tx.delete('folders', id))); });
+};
+
+// Deletes the folders and trashes the live files in them in one transaction, including
+// files another tab has put there since. Resolves the trashed records.
+export const trashFolders = (ownerId: string, folderIds: string[], deletedAt: number): Promise<BeeFile[]> => {
+  const inFolders = new Set(folderIds);
+  return transact(['metadata', 'folders'], 'readwrite', async tx => {
+    const nested = (await tx.getAll<BeeFile>('metadata', ownerId, 'ownerId'))
+      .filter(f => f.deletedAt === undefined && f.parentId !== null && inFolders.has(f.parentId));
+    const trashed = nested.map(f => ({ ...f, deletedAt }));
+    await Promise.all(trashed.map(f => tx.put('metadata', f)));
+    await Promise.all(folderIds.map(id => tx.delete('folders', id)));
+    return trashed;
+  });
+};
+
+export const getShare = (token: string): Promise<BeeShare | undefined> => {
+  return transact(['shares'], 'readonly', tx => tx.get<BeeShare>('shares', token));
+};
+
+export const getOwnerShares = (ownerId: string): Promise<BeeShare[]> => readAll('shares', ownerId, 'ownerId');
+
+export const saveShare = async (share: BeeShare): Promise<void> => {
+  await transact(['shares'], 'readwrite', tx => tx.put('shares', share));
+};
+
+export const deleteShares = async (tokens: string[]): Promise<void> => {
+  await transact(['shares'], 'readwrite', async tx => { await Promise.all(tokens.map(token => tx.delete('shares', token))); });
+};
+
+// Counts one visit in the same transaction that reads the count, so visits in parallel tabs all land
+export const recordShareAccess = (token: string): Promise<BeeShare | undefined> => {
+  return transact(['shares'], 'readwrite', async tx => {
+    const share = await tx.get<BeeShare>('shares', token);
+    if (!share) return undefined;
+    const visited = { ...share, accessCount: share.accessCount + 1, lastAccessedAt: Date.now() };
+    await tx.put('shares', visited);
+    return visited;
+  });
+};
+
+export const getPendingJobs = (ownerId: string): Promise<PendingJob[]> => readAll('jobs', ownerId, 'ownerId');
+
+export const savePendingJobs = async (jobs: PendingJob[]): Promise<void> => {
+  await transact(['jobs'], 'readwrite', async tx => { await Promise.all(jobs.map(job => tx.put('jobs', job))); });
+};
+
+export const deletePendingJobs = async (ids: string[]): Promise<void> => {
+  await transact(['jobs'], 'readwrite', async tx => { await Promise.all(ids.map(id => tx.delete('jobs', id))); });
+};
+
+export const getAiCacheEntry = (id: string): Promise<AiCacheEntry | undefined> => {
+  return transact(['aiCache'], 'readonly', tx => tx.get<AiCacheEntry>('aiCache', id));
+};
+
+export const saveAiCacheEntry = async (entry: AiCacheEntry): Promise<void> => {
+  await transact(['aiCache'], 'readwrite', tx => tx.put('aiCache', entry));
+};
+
+// AI answers describe content in plaintext, like the search index
+export const clearAiCache = async (ownerId: string): Promise<void> => {
+  await transact(['aiCache'], 'readwrite', async tx => {
+    const keys = await tx.getAllKeys('aiCache', ownerId, 'ownerId');
+    await Promise.all(keys.map(key => tx.delete('aiCache', key)));
+  });
+};
+
+// Every record in the database regardless of owner, for whole-hive archives
+export interface HiveRecords {
+  files: BeeFile[];
+  folders: BeeFolder[];
+  versions: BeeFileVersion[];
+}
+
+export const getAllRecords = async (): Promise<HiveRecords> => {
+  const [files, folders, versions] = await Promise.all([
+    readAll<BeeFile>('metadata'),
+    readAll<BeeFolder>('folders'),
+    readAll<BeeFileVersion>('versions')
+  ]);
+  return { files, folders, versions };
+};
+
+// Raw stored bytes, ciphertext included; archives carry blobs as they sit on disk
+export const getStoredBlob = async (blobId: string): Promise<Blob> => {
+  const stored = await transact(['blobs'], 'readonly', tx => tx.getBlob(blobId));
+  if (!stored) throw new Error(`Blob ${blobId} is missing from the hive.`);
+  return resolveBlob(stored);
+};
+
+// Resolves whether the blob was written; content addressing makes an existing key the same bytes
+export const putStoredBlob = async (blobId: string, blob: Blob): Promise<boolean> => {
+  const data = await stageBlob(blob);
+  return transact(['blobs'], 'readwrite', async tx => {
+    if (await tx.hasBlob(blobId)) return false;
+    await tx.putBlob(blobId, data);
+    return true;
+  }, undefined, isBlobRef(data) ? [data] : []);
+};
+
+// Drops blobs nothing references, e.g. ones written by an import that failed before its records landed
+export const releaseOrphanBlobs = async (blobIds: string[]): Promise<void> => {
+  await transact(BLOB_STORES, 'readwrite', tx => releaseBlobs(tx, blobIds));
+};
+
+export interface StoredThumbnail {
+  blobId: string;
+  image?: Blob; // Absent when the content couldn't be rendered, so it isn't attempted again
+  type?: string;
+  encrypted?: boolean;
+}
+
+// Thumbnails of encrypted content are sealed with the same key as the content
+export const saveThumbnail = async (file: StoredContent, image: Blob | null): Promise<void> => {
+  let record: StoredThumbnail = { blobId: file.blobId };
+  if (image && file.encrypted) {
+    const key = getDataKey(file.ownerId);
+    if (!key) throw new HiveLockedError();
+    record = { ...record, image: await encryptBlob(key, image), type: image.type, encrypted: true };
+  } else if (image) {
+    record = { ...record, image, type: image.type };
+  }
+  await transact(['blobs', 'thumbnails'], 'readwrite', async tx => {
+    // The content may have been deleted while its thumbnail was rendering
+    if (await tx.hasBlob(file.blobId)) await tx.put('thumbnails', record);
+  });
+};
+
+// One transaction for the whole batch; missing entries come back undefined
+export const getThumbnailRecords = (blobIds: string[]): Promise<(StoredThumbnail | undefined)[]> => {
+  return transact(['thumbnails'], 'readonly', tx => Promise.all(blobIds.map(id => tx.get<StoredThumbnail>('thumbnails', id))));
+};
+
+// Resolves undefined when no thumbnail has been made yet, null when none can be
+export const openThumbnail = async (file: StoredContent, record: StoredThumbnail | undefined): Promise<Blob | null | undefined> => {
+  if (!record) return undefined;
+  if (!record.image) return null;
+  if (!record.encrypted) return record.image;
+  const key = getDataKey(file.ownerId);
+  if (!key) throw new HiveLockedError();
+  return decryptBlob(key, record.image, record.type || '');
+};
+
+export const getThumbnailBlobIds = async (): Promise<Set<string>> => {
+  return new Set(await transact(['thumbnails'], 'readonly', tx => tx.getAllKeys('thumbnails')) as string[]);
+};
+
+// Moves large blobs written before OPFS was in use out of the backend, one at a
+// time, then deletes OPFS files that nothing points at any more. Safe to run in
+// several tabs at once: a blob someone else moved or deleted meanwhile is skipped.
+export const migrateBlobsToOpfs = async (signal?: AbortSignal): Promise<number> => {
+  if (!usesOpfs()) return 0;
+  const blobIds = await transact(['blobs'], 'readonly', tx => tx.listBlobIds());
+  const referenced = new Set<string>();
+  let moved = 0;
+  for (const blobId of blobIds) {
+    if (signal?.aborted) return moved;
+    const stored = await transact(['blobs'], 'readonly', tx => tx.getBlob(blobId));
+    if (isBlobRef(stored)) referenced.add(stored.path);
+    if (!stored || isBlobRef(stored) || stored.size < LARGE_BLOB_BYTES) continue;
+    const ref = await writeOpfsFile(stored, { signal });
+    await transact(['blobs'], 'readwrite', async tx => {
+      const current = await tx.getBlob(blobId);
+      if (!current || isBlobRef(current)) return;
+      await tx.putBlob(blobId, ref);
+      referenced.add(ref.path);
+      moved++;
+    }, undefined, [ref]);
+  }
+  await sweepOpfsFiles(referenced);
+  return moved;
+};
+
+// merge adds records whose id is new; replace swaps every record for the given set
+// and drops the blobs only the old set referenced. Either way it is one transaction.
+export const importRecords = async (records: HiveRecords, mode: ArchiveImportMode): Promise<number> => {
+  const stores: [RecordStoreName, { id: string }[]][] = [
+    ['metadata', records.files],
+    ['folders', records.folders],
+    ['versions', records.versions]
+  ];
+  return transact(BLOB_STORES.concat('folders', INDEX_STORES), 'readwrite', async tx => {
+    if (mode === 'replace') {
+      // The index is rebuilt from the new records on the next load
+      await Promise.all(INDEX_STORES.map(store => tx.clear(store as RecordStoreName)));
+      for (const [store, items] of stores) {
+        await tx.clear(store);
+        await Promise.all(items.map(item => tx.put(store, item)));
+      }
+      const keep = new Set([...records.files, ...records.versions].map(r => r.blobId));
+      const blobIds = await tx.listBlobIds();
+      await Promise.all(blobIds.filter(id => !keep.has(id)).map(id => tx.deleteBlob(id)));
+      return records.files.length;
+    }
+    let added = 0;
+    for (const [store, items] of stores) {
+      await Promise.all(items.map(async item => {
+        if (await tx.get(store, item.id) !== undefined) return;
+        await tx.put(store, item);
+        if (store === 'metadata') added++;
+      }));
+    }
+    return added;
+  });
+};
+
+export interface IndexedDocument {
+  fileId: string;
+  ownerId: string;
+  text: string; // The indexed text, kept for building result snippets
+}
+
+export interface Posting {
+  ownerId: string;
+  term: string;
+  fileId: string;
+  tf: number; // Occurrences of the term in the document
+  length: number; // Token count of the document, so ranking never has to load document text
+}
+
+// Replaces whatever the file had indexed before
+export const saveContentIndex = async (doc: IndexedDocument, postings: Posting[]): Promise<void> => {
+  await transact(INDEX_STORES, 'readwrite', async tx => {
+    const stale = await tx.getAllKeys('postings', doc.fileId, 'fileId');
+    await Promise.all(stale.map(key => tx.delete('postings', key)));
+    await tx.put('contentDocs', doc);
+    await Promise.all(postings.map(p => tx.put('postings', p)));
+  });
+};
+
+export const getIndexedFileIds = (ownerId: string): Promise<string[]> => {
+  return transact(['contentDocs'], 'readonly', tx => tx.getAllKeys('contentDocs', ownerId, 'ownerId')) as Promise<string[]>;
+};
+
+export const countIndexedDocuments = (ownerId: string): Promise<number> => {
+  return transact(['contentDocs'], 'readonly', tx => tx.count('contentDocs', ownerId, 'ownerId'));
+};
+
+// Postings for every term of the owner's index that starts with the prefix
+export const queryPostings = (ownerId: string, prefix: string): Promise<Posting[]> => {
+  return readAll('postings', keyRange([ownerId, prefix], [ownerId, prefix + '\uffff']));
+};
+
+export const getIndexedDocuments = async (fileIds: string[]): Promise<IndexedDocument[]> => {
+  const docs = await transact(['contentDocs'], 'readonly', tx => Promise.all(fileIds.map(fileId => tx.get<IndexedDocument>('contentDocs', fileId))));
+  return docs.filter((d): d is IndexedDocument => d !== undefined);
+};
+
+export const clearOwnerIndex = async (ownerId: string): Promise<void> => {
+  await transact(INDEX_STORES, 'readwrite', async tx => {
+    const keys = await tx.getAllKeys('contentDocs', ownerId, 'ownerId');
+    await Promise.all(keys.map(key => tx.delete('contentDocs', key)));
+    // Arrays sort after strings, so [ownerId, []] closes every key under this owner
+    await tx.delete('postings', keyRange([ownerId], [ownerId, []]));
+  });
 };
 
 export const formatFileSize = (bytes: number): string => {
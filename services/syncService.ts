@@ -0,0 +1,61 @@
+import { BeeFile, BeeFileVersion, BeeFolder } from '../types';
+
+// Every open tab keeps its own copy of the hive's records in state. Each
+// committed write is announced on a BroadcastChannel so the other tabs apply
+// it too, instead of going stale or writing back what they last saw.
+
+const CHANNEL_NAME = 'bee-hive-changes';
+
+export interface RecordChanges<T> {
+  saved: T[]; // Created or updated, as they now stand
+  removed: string[];
+}
+
+export interface HiveChange {
+  files: RecordChanges<BeeFile>;
+  folders: RecordChanges<BeeFolder>;
+  versions: RecordChanges<BeeFileVersion>;
+  thumbnails: string[]; // Blob ids whose thumbnail was just made
+  reset: boolean; // Whole stores were replaced, e.g. by an archive import; reload everything
+}
+
+export type HiveChangeListener = (change: HiveChange) => void;
+
+const listeners = new Set<HiveChangeListener>();
+let channel: BroadcastChannel | null = null;
+
+// A channel never hears its own messages, so the tab that wrote keeps updating itself as before
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<HiveChange>) => listeners.forEach(listener => listener(event.data));
+  return channel;
+};
+
+export const publishHiveChange = (change: HiveChange) => {
+  try {
+    getChannel()?.postMessage(change);
+  } catch (err) {
+    // Other tabs catch up on their next load; the write itself has landed
+    console.error("Hive change broadcast failed:", err);
+  }
+};
+
+export const subscribeHiveChanges = (listener: HiveChangeListener): (() => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Folds a change into a list held in state, keeping the list's order and appending new records
+export const applyRecordChanges = <T extends { id: string }>(records: T[], { saved, removed }: RecordChanges<T>): T[] => {
+  if (!saved.length && !removed.length) return records;
+  const gone = new Set(removed);
+  const updates = new Map(saved.map(r => [r.id, r]));
+  const next = records.filter(r => !gone.has(r.id)).map(r => {
+    const updated = updates.get(r.id);
+    updates.delete(r.id);
+    return updated || r;
+  });
+  return [...next, ...updates.values()];
+};
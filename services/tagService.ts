@@ -0,0 +1,34 @@
+
+import { BeeFile, FileMarks, LabelColor } from '../types';
+
+export const LABEL_COLORS: LabelColor[] = ['red', 'orange', 'yellow', 'green', 'blue', 'purple'];
+
+const MAX_TAG_LENGTH = 32;
+
+// Tags compare case-insensitively and ignore repeated whitespace, so "Q3  Report" and "q3 report" are one tag
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+export const addTag = (tags: string[] = [], tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+  return !normalized || tags.includes(normalized) ? tags : [...tags, normalized];
+};
+
+export const removeTag = (tags: string[] = [], tag: string): string[] => tags.filter(t => t !== tag);
+
+// Every tag in use with the number of files carrying it, most used first
+export const countTags = (files: BeeFile[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  files.forEach(f => f.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+export const suggestTags = (known: string[], input: string, exclude: string[] = []): string[] => {
+  const prefix = normalizeTag(input);
+  return known.filter(tag => !exclude.includes(tag) && (!prefix || tag.includes(prefix))).slice(0, 8);
+};
+
+// Merges marks into a file, dropping the ones that end up unset rather than storing empty values
+export const applyMarks = (file: BeeFile, marks: FileMarks): BeeFile => {
+  const { tags, starred, label, ...rest } = { ...file, ...marks };
+  return { ...rest, ...(tags?.length ? { tags } : {}), ...(starred ? { starred } : {}), ...(label ? { label } : {}) };
+};
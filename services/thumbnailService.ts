@@ -0,0 +1,214 @@
+
+import { BeeFile } from '../types';
+import { getFileBlob, saveThumbnail, getThumbnailBlobIds, getThumbnailRecords, openThumbnail } from './storageService';
+import { getDataKey, isEncryptionEnabled } from './cryptoService';
+import { fitWithin as fitWithinSize } from './jobHandlers';
+import { runJob, JobOptions, isAbortError } from './workerPool';
+
+type ThumbnailKind = 'image' | 'video' | 'pdf';
+
+const THUMBNAIL_SIZE = 320; // Longest edge, in pixels
+const THUMBNAIL_TYPE = 'image/webp'; // Browsers that can't encode it fall back to PNG
+const THUMBNAIL_QUALITY = 0.8;
+
+// Images and PDFs are decoded whole; videos are read only as far as the poster frame
+const MAX_DECODED_BYTES = 64 * 1024 * 1024;
+// Far enough in to skip a fade from black, close enough to exist in short clips
+const POSTER_SECONDS = 1;
+const VIDEO_TIMEOUT_MS = 15 * 1000;
+const PROGRESS_EVERY = 8;
+// Requests are held briefly and read in one transaction; ones cancelled by then, like
+// cards that scrolled past during a fling, are never read at all
+const LOAD_BATCH_DELAY_MS = 50;
+
+export const getThumbnailKind = (file: Pick<BeeFile, 'name' | 'type' | 'category'>): ThumbnailKind | null => {
+  if (file.category === 'images') return 'image';
+  if (file.category === 'videos') return 'video';
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) return 'pdf';
+  return null;
+};
+
+const fitWithin = (width: number, height: number) => fitWithinSize(width, height, THUMBNAIL_SIZE);
+
+const renderToBlob = async (width: number, height: number, draw: (canvas: HTMLCanvasElement, context: CanvasRenderingContext2D) => void | Promise<void>): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D is unavailable.');
+  context.imageSmoothingQuality = 'high';
+  await draw(canvas, context);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The thumbnail could not be encoded.'))), THUMBNAIL_TYPE, THUMBNAIL_QUALITY);
+  });
+};
+
+// An <img> rather than createImageBitmap, which rejects SVG
+const renderImage = async (content: Blob): Promise<Blob> => {
+  const url = URL.createObjectURL(content);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    // SVGs without a width or height have no natural size
+    const [width, height] = fitWithin(image.naturalWidth || THUMBNAIL_SIZE, image.naturalHeight || THUMBNAIL_SIZE);
+    return await renderToBlob(width, height, (_canvas, context) => context.drawImage(image, 0, 0, width, height));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const renderVideoFrame = (content: Blob): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(content);
+  const video = document.createElement('video');
+  const finish = (result: Blob | Error) => {
+    clearTimeout(timer);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    if (result instanceof Blob) resolve(result);
+    else reject(result);
+  };
+  const timer = setTimeout(() => finish(new Error('Timed out waiting for a video frame.')), VIDEO_TIMEOUT_MS);
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.onloadedmetadata = () => {
+    video.currentTime = Math.min(POSTER_SECONDS, (video.duration || 0) / 2);
+  };
+  video.onseeked = () => {
+    if (!video.videoWidth) return finish(new Error('The video has no picture.'));
+    const [width, height] = fitWithin(video.videoWidth, video.videoHeight);
+    renderToBlob(width, height, (_canvas, context) => context.drawImage(video, 0, 0, width, height)).then(finish, finish);
+  };
+  video.onerror = () => finish(new Error('The video could not be decoded.'));
+  video.src = url;
+});
+
+let pdfjs: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// Loaded on first use. Registering the worker module on globalThis makes pdf.js
+// parse on the main thread, which one page at thumbnail size can afford.
+const loadPdfJs = () => {
+  pdfjs ??= Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs')]).then(([lib, worker]) => {
+    (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = worker;
+    return lib;
+  });
+  return pdfjs;
+};
+
+const renderPdfPage = async (content: Blob): Promise<Blob> => {
+  const { getDocument } = await loadPdfJs();
+  const doc = await getDocument({ data: new Uint8Array(await content.arrayBuffer()) }).promise;
+  try {
+    const page = await doc.getPage(1);
+    const natural = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: THUMBNAIL_SIZE / Math.max(natural.width, natural.height) });
+    return await renderToBlob(Math.round(viewport.width), Math.round(viewport.height), async (canvas, context) => {
+      // Transparent pages would otherwise encode as black in some browsers
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, canvasContext: context, viewport }).promise;
+    });
+  } finally {
+    await doc.destroy();
+  }
+};
+
+// Bitmaps decode and scale in a processing worker. SVGs need a document, and so
+// do video frames (a <video> element) and PDF pages (pdf.js draws through the
+// DOM), so those render here; a worker that can't decode an image hands it back too.
+const renderImageOffThread = async (content: Blob, options?: JobOptions): Promise<Blob> => {
+  if (content.type === 'image/svg+xml') return renderImage(content);
+  try {
+    return await runJob('thumbnail', { blob: content, spec: { maxSize: THUMBNAIL_SIZE, type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY } }, options);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return renderImage(content);
+  }
+};
+
+const renderers: Record<ThumbnailKind, (content: Blob, options?: JobOptions) => Promise<Blob>> = {
+  image: renderImageOffThread,
+  video: renderVideoFrame,
+  pdf: renderPdfPage
+};
+
+// Pass the plaintext when the caller already has it, as uploads do. Content
+// that fails to render is recorded as having no thumbnail; only a locked hive,
+// a storage failure or the signal rejects.
+export const createThumbnail = async (file: BeeFile, content?: Blob, options?: JobOptions): Promise<void> => {
+  const kind = getThumbnailKind(file);
+  if (!kind) return;
+  if (kind !== 'video' && file.size > MAX_DECODED_BYTES) return saveThumbnail(file, null);
+  const source = content || await getFileBlob(file);
+  // An upload the browser couldn't name has its sniffed type on the record only
+  const typed = source.type ? source : source.slice(0, source.size, file.type);
+  let image: Blob | null = null;
+  try {
+    image = await renderers[kind](typed, options);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn(`No thumbnail for ${file.name}:`, err);
+  }
+  options?.signal?.throwIfAborted();
+  await saveThumbnail(file, image);
+};
+
+// Catches up on files stored before thumbnails existed, brought in by an import,
+// or re-encrypted, behind anything more urgent. onProgress fires every few
+// thumbnails so the grid can refresh.
+export const createMissingThumbnails = async (files: BeeFile[], onProgress?: () => void, signal?: AbortSignal): Promise<void> => {
+  const done = await getThumbnailBlobIds();
+  const pending = files.filter(f => !done.has(f.blobId) && getThumbnailKind(f) && !(f.encrypted && !getDataKey(f.ownerId)));
+  for (let i = 0; i < pending.length; i++) {
+    const file = pending[i];
+    // Duplicates share one thumbnail; plaintext left in a hive being encrypted is about to be rewritten
+    if (signal?.aborted) return;
+    if (done.has(file.blobId) || (!file.encrypted && isEncryptionEnabled(file.ownerId))) continue;
+    await createThumbnail(file, undefined, { priority: 'low', signal }).catch(err => {
+      if (!isAbortError(err)) console.error(`Thumbnail for ${file.name} failed:`, err);
+    });
+    done.add(file.blobId);
+    if ((i + 1) % PROGRESS_EVERY === 0) onProgress?.();
+  }
+  if (pending.length) onProgress?.();
+};
+
+interface PendingLoad {
+  file: BeeFile;
+  signal: AbortSignal;
+  resolve: (thumbnail: Blob | null | undefined) => void;
+  reject: (err: unknown) => void;
+}
+
+let pendingLoads: PendingLoad[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const abortError = () => new DOMException('Thumbnail load cancelled', 'AbortError');
+
+const flushLoads = async () => {
+  flushTimer = null;
+  const batch = pendingLoads.filter(load => !load.signal.aborted);
+  pendingLoads.filter(load => load.signal.aborted).forEach(load => load.reject(abortError()));
+  pendingLoads = [];
+  if (!batch.length) return;
+  try {
+    const records = await getThumbnailRecords(batch.map(load => load.file.blobId));
+    batch.forEach((load, i) => {
+      if (load.signal.aborted) load.reject(abortError());
+      else openThumbnail(load.file, records[i]).then(load.resolve, load.reject);
+    });
+  } catch (err) {
+    batch.forEach(load => load.reject(err));
+  }
+};
+
+// Resolves undefined when no thumbnail has been made yet, null when none can be.
+// Rejects with an AbortError once the signal fires.
+export const loadThumbnail = (file: BeeFile, signal: AbortSignal): Promise<Blob | null | undefined> => {
+  return new Promise((resolve, reject) => {
+    pendingLoads.push({ file, signal, resolve, reject });
+    flushTimer ??= setTimeout(flushLoads, LOAD_BATCH_DELAY_MS);
+  });
+};
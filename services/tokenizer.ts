@@ -0,0 +1,10 @@
+// Shared by the search index and the processing workers that build it
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 32;
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+export const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(WORD) || []).filter(t => t.length >= MIN_TOKEN_LENGTH && t.length <= MAX_TOKEN_LENGTH);
+};
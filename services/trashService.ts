@@ -0,0 +1,34 @@
+
+import { BeeFile } from '../types';
+
+const RETENTION_KEY = 'bee_trash_retention';
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RetentionSetting {
+  userId: string;
+  days: number;
+}
+
+export const getRetentionDays = (userId: string): number => {
+  const settings: RetentionSetting[] = JSON.parse(localStorage.getItem(RETENTION_KEY) || '[]');
+  return settings.find(s => s.userId === userId)?.days ?? DEFAULT_RETENTION_DAYS;
+};
+
+export const setRetentionDays = (userId: string, days: number) => {
+  const settings: RetentionSetting[] = JSON.parse(localStorage.getItem(RETENTION_KEY) || '[]');
+  localStorage.setItem(RETENTION_KEY, JSON.stringify([...settings.filter(s => s.userId !== userId), { userId, days }]));
+};
+
+export const isTrashed = (file: BeeFile): boolean => file.deletedAt !== undefined;
+
+export const getPurgeTime = (file: BeeFile, retentionDays: number): number => (file.deletedAt ?? 0) + retentionDays * DAY_MS;
+
+export const getExpiredTrash = (files: BeeFile[], retentionDays: number, now = Date.now()): BeeFile[] => {
+  return files.filter(f => isTrashed(f) && getPurgeTime(f, retentionDays) <= now);
+};
+
+export const daysUntilPurge = (file: BeeFile, retentionDays: number, now = Date.now()): number => {
+  return Math.max(Math.ceil((getPurgeTime(file, retentionDays) - now) / DAY_MS), 0);
+};
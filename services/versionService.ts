@@ -0,0 +1,50 @@
+
+import { BeeFile, BeeFileVersion } from '../types';
+
+const VERSION_LIMIT_KEY = 'bee_version_limit';
+
+// Superseded versions kept per file; the current content does not count
+export const DEFAULT_VERSION_LIMIT = 10;
+
+interface VersionLimitSetting {
+  userId: string;
+  limit: number;
+}
+
+export const getVersionLimit = (userId: string): number => {
+  const settings: VersionLimitSetting[] = JSON.parse(localStorage.getItem(VERSION_LIMIT_KEY) || '[]');
+  return settings.find(s => s.userId === userId)?.limit ?? DEFAULT_VERSION_LIMIT;
+};
+
+export const setVersionLimit = (userId: string, limit: number) => {
+  const settings: VersionLimitSetting[] = JSON.parse(localStorage.getItem(VERSION_LIMIT_KEY) || '[]');
+  localStorage.setItem(VERSION_LIMIT_KEY, JSON.stringify([...settings.filter(s => s.userId !== userId), { userId, limit }]));
+};
+
+export const getVersionNumber = (file: BeeFile): number => file.version ?? 1;
+
+// Newest first, which is the order the Versions panel lists them in
+export const sortVersions = (versions: BeeFileVersion[]): BeeFileVersion[] => [...versions].sort((a, b) => b.version - a.version);
+
+// Versions beyond the cap for each file, oldest first to go
+export const getExcessVersions = (versions: BeeFileVersion[], limit: number): BeeFileVersion[] => {
+  const byFile = new Map<string, BeeFileVersion[]>();
+  versions.forEach(v => byFile.set(v.fileId, [...(byFile.get(v.fileId) || []), v]));
+  return Array.from(byFile.values()).flatMap(list => sortVersions(list).slice(limit));
+};
+
+// Snapshot of a file's current content, for archiving before it is replaced
+export const toVersion = (file: BeeFile): BeeFileVersion => ({
+  id: Math.random().toString(36).substring(2, 9),
+  fileId: file.id,
+  ownerId: file.ownerId,
+  version: getVersionNumber(file),
+  blobId: file.blobId,
+  ...(file.hash ? { hash: file.hash } : {}),
+  ...(file.encrypted ? { encrypted: true } : {}),
+  type: file.type,
+  size: file.size,
+  lastModified: file.lastModified,
+  uploadedAt: file.uploadedAt ?? file.lastModified,
+  uploadedBy: file.uploadedBy ?? ''
+});
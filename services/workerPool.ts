@@ -0,0 +1,210 @@
+import { runJobHandler } from './jobHandlers';
+import { JobInput, JobKind, JobOutput, SerializedError, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Heavy per-file work runs on a small pool of processing workers, so the page
+// stays responsive through large batches. Jobs queue by priority and first
+// come, first served within one; each can be cancelled through its signal and
+// reports progress in bytes. Where workers can't start, the same handlers run
+// on the main thread, one job at a time.
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export interface JobOptions {
+  priority?: JobPriority; // 'high' for what the user is waiting on, 'low' for catch-up work
+  signal?: AbortSignal;
+  onProgress?: (loaded: number) => void;
+}
+
+export interface JobActivity {
+  queued: number;
+  running: number;
+}
+
+export type JobActivityListener = (activity: JobActivity) => void;
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+// Leaves a core for the page itself
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+interface Job {
+  id: number;
+  kind: JobKind;
+  input: JobInput<JobKind>;
+  priority: JobPriority;
+  onProgress?: (loaded: number) => void;
+  resolve: (output: JobOutput<JobKind>) => void;
+  reject: (err: unknown) => void;
+  detach: () => void; // Stops listening to the job's signal
+  settled: boolean;
+}
+
+// A worker, or the main thread standing in for one
+interface Slot {
+  worker: Worker | null;
+  ready: boolean;
+  job: Job | null;
+  cancelInline?: () => void;
+}
+
+const queue: Job[] = [];
+const slots: Slot[] = [];
+const listeners = new Set<JobActivityListener>();
+let nextJobId = 1;
+let workersAvailable = typeof Worker !== 'undefined';
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+const abortError = () => new DOMException('Job cancelled', 'AbortError');
+
+const deserializeError = ({ name, message }: SerializedError): Error => {
+  if (name === 'AbortError') return new DOMException(message, name);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+export const getJobActivity = (): JobActivity => ({ queued: queue.length, running: slots.filter(slot => slot.job).length });
+
+export const subscribeJobActivity = (listener: JobActivityListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const emit = () => {
+  const activity = getJobActivity();
+  listeners.forEach(listener => listener(activity));
+};
+
+const settle = (job: Job, outcome: () => void) => {
+  if (job.settled) return;
+  job.settled = true;
+  job.detach();
+  outcome();
+};
+
+// Frees the slot for the next job. A cancelled job keeps its slot until the worker stops on it.
+const release = (slot: Slot) => {
+  slot.job = null;
+  slot.cancelInline = undefined;
+  pump();
+};
+
+const removeSlot = (slot: Slot) => {
+  slot.worker?.terminate();
+  slots.splice(slots.indexOf(slot), 1);
+};
+
+const handleResponse = (slot: Slot, message: WorkerResponse) => {
+  if (message.type === 'ready') {
+    slot.ready = true;
+    return;
+  }
+  const job = slot.job;
+  if (!job || job.id !== message.jobId) return;
+  if (message.type === 'progress') {
+    if (!job.settled) job.onProgress?.(message.loaded);
+    return;
+  }
+  if (message.type === 'done') settle(job, () => job.resolve(message.output));
+  else settle(job, () => job.reject(deserializeError(message.error)));
+  release(slot);
+};
+
+// A worker that fails before it is ready never loaded (no module workers, a
+// blocked script), so the pool falls back to the main thread and retries the
+// job there. One that fails later was brought down by its job, which fails too.
+const handleCrash = (slot: Slot, event: ErrorEvent) => {
+  event.preventDefault();
+  const job = slot.job;
+  removeSlot(slot);
+  if (!slot.ready) {
+    console.warn("Processing workers are unavailable; running jobs on the main thread:", event.message);
+    workersAvailable = false;
+    if (job && !job.settled) queue.unshift(job);
+  } else if (job) {
+    settle(job, () => job.reject(new Error(`The processing worker stopped: ${event.message || 'unknown error'}`)));
+  }
+  pump();
+};
+
+const spawn = (): Slot => {
+  const slot: Slot = { worker: null, ready: false, job: null };
+  if (workersAvailable) {
+    try {
+      const worker = new Worker(new URL('../processingWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(slot, event.data);
+      worker.onerror = event => handleCrash(slot, event);
+      slot.worker = worker;
+    } catch (err) {
+      console.warn("Processing workers are unavailable; running jobs on the main thread:", err);
+      workersAvailable = false;
+    }
+  }
+  slots.push(slot);
+  return slot;
+};
+
+const runInline = (slot: Slot, job: Job) => {
+  const controller = new AbortController();
+  slot.cancelInline = () => controller.abort();
+  runJobHandler(job.kind, job.input, { signal: controller.signal, progress: loaded => job.onProgress?.(loaded) })
+    .then(output => settle(job, () => job.resolve(output)), err => settle(job, () => job.reject(err)))
+    .finally(() => release(slot));
+};
+
+const start = (slot: Slot, job: Job) => {
+  slot.job = job;
+  if (!slot.worker) return runInline(slot, job);
+  const request: WorkerRequest = { type: 'run', jobId: job.id, kind: job.kind, input: job.input };
+  slot.worker.postMessage(request);
+};
+
+const pump = () => {
+  // Workers that failed to load are gone; only the main thread is left
+  if (!workersAvailable) slots.filter(slot => slot.worker && !slot.job).forEach(removeSlot);
+  const capacity = workersAvailable ? POOL_SIZE : 1;
+  while (queue.length) {
+    const slot = slots.find(s => !s.job) || (slots.length < capacity ? spawn() : null);
+    if (!slot) break;
+    start(slot, queue.shift()!);
+  }
+  emit();
+};
+
+const cancel = (job: Job) => {
+  const index = queue.indexOf(job);
+  if (index !== -1) {
+    queue.splice(index, 1);
+  } else {
+    const slot = slots.find(s => s.job === job);
+    const request: WorkerRequest = { type: 'cancel', jobId: job.id };
+    if (slot?.worker) slot.worker.postMessage(request);
+    else slot?.cancelInline?.();
+  }
+  settle(job, () => job.reject(abortError()));
+  emit();
+};
+
+// Rejects with an AbortError once the signal fires, whether the job was still queued or already running
+export const runJob = <K extends JobKind>(kind: K, input: JobInput<K>, { priority = 'normal', signal, onProgress }: JobOptions = {}): Promise<JobOutput<K>> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => cancel(job);
+    const job: Job = {
+      id: nextJobId++,
+      kind,
+      input,
+      priority,
+      onProgress,
+      resolve: resolve as (output: JobOutput<JobKind>) => void,
+      reject,
+      detach: () => signal?.removeEventListener('abort', onAbort),
+      settled: false
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // Behind everything queued at the same or a higher priority
+    const at = queue.findIndex(queued => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]);
+    queue.splice(at === -1 ? queue.length : at, 0, job);
+    pump();
+  });
+};
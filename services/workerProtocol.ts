@@ -0,0 +1,46 @@
+import { BlobRef } from './storageBackend';
+
+// The messages exchanged with processingWorker.ts. Each job kind pairs the
+// input the page sends with the output the worker answers with; everything in
+// them survives structured cloning, and Blobs cross as handles, not copies.
+
+export interface ExtractedText {
+  text: string; // The indexed head of the content
+  terms: [string, number][]; // Each distinct token with its count
+  length: number; // Tokens in total
+}
+
+export interface ThumbnailSpec {
+  maxSize: number; // Longest edge, in pixels
+  type: string;
+  quality: number;
+}
+
+export interface JobTypes {
+  hash: { input: { blob: Blob }; output: string };
+  // Copies the content into a new OPFS file, hashing it on the way through
+  storeToOpfs: { input: { blob: Blob }; output: { hash: string; ref: BlobRef } };
+  extractText: { input: { blob: Blob; maxChars: number }; output: ExtractedText };
+  thumbnail: { input: { blob: Blob; spec: ThumbnailSpec }; output: Blob };
+  // The MIME type read from the content's leading bytes, for files the browser couldn't name
+  sniffType: { input: { blob: Blob }; output: string | null };
+}
+
+export type JobKind = keyof JobTypes;
+export type JobInput<K extends JobKind> = JobTypes[K]['input'];
+export type JobOutput<K extends JobKind> = JobTypes[K]['output'];
+
+export interface SerializedError {
+  name: string;
+  message: string;
+}
+
+export type WorkerRequest =
+  | { type: 'run'; jobId: number; kind: JobKind; input: JobInput<JobKind> }
+  | { type: 'cancel'; jobId: number };
+
+export type WorkerResponse =
+  | { type: 'ready' } // Posted once the worker has loaded
+  | { type: 'progress'; jobId: number; loaded: number } // Bytes of the input processed so far
+  | { type: 'done'; jobId: number; output: JobOutput<JobKind> }
+  | { type: 'failed'; jobId: number; error: SerializedError };
@@ -0,0 +1,261 @@
+
+// Minimal ZIP support for hive archives: stored (uncompressed) entries with
+// ZIP64 extensions, so archives can pass 4 GB. Entry data is never buffered
+// whole; the writer composes the output Blob from the source Blobs and the
+// reader hands back slices of the archive File.
+
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_SIG = 0x06054b50;
+const ZIP64_END_SIG = 0x06064b50;
+const ZIP64_LOCATOR_SIG = 0x07064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const UTF8_FLAG = 0x0800;
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const END_MIN_BYTES = 22;
+const MAX_COMMENT_BYTES = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  crc: number;
+  offset: number; // Of the local header within the archive
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Reads the blob chunk by chunk, so only one chunk is in memory at a time
+export const crc32 = async (blob: Blob, onProgress?: (loaded: number) => void): Promise<number> => {
+  const reader = blob.stream().getReader();
+  let crc = MAX_32;
+  let loaded = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    loaded += value.byteLength;
+    onProgress?.(loaded);
+  }
+  return (crc ^ MAX_32) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const zip64Extra = (values: number[]) => {
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, ZIP64_EXTRA_ID, true);
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => extra.setBigUint64(4 + i * 8, BigInt(value), true));
+  return new Uint8Array(extra.buffer);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+interface PendingEntry extends ZipEntry {
+  nameBytes: Uint8Array;
+  time: number;
+  date: number;
+}
+
+export interface ZipWriter {
+  add: (name: string, data: Blob, onProgress?: (loaded: number) => void) => Promise<void>;
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const entries: PendingEntry[] = [];
+  let offset = 0;
+
+  const push = (part: Uint8Array | Blob) => {
+    parts.push(part);
+    offset += part instanceof Blob ? part.size : part.length;
+  };
+
+  const add = async (name: string, data: Blob, onProgress?: (loaded: number) => void) => {
+    const crc = await crc32(data, onProgress);
+    const nameBytes = new TextEncoder().encode(name);
+    const { time, date } = toDosDateTime(new Date());
+    const large = data.size >= MAX_32;
+    const extra = large ? zip64Extra([data.size, data.size]) : new Uint8Array(0);
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIG, true);
+    header.setUint16(4, large ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, 0, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, large ? MAX_32 : data.size, true);
+    header.setUint32(22, large ? MAX_32 : data.size, true);
+    header.setUint16(26, nameBytes.length, true);
+    header.setUint16(28, extra.length, true);
+    entries.push({ name, size: data.size, crc, offset, nameBytes, time, date });
+    push(concat([new Uint8Array(header.buffer), nameBytes, extra]));
+    push(data);
+  };
+
+  const finish = (): Blob => {
+    const centralStart = offset;
+    entries.forEach(entry => {
+      const wide = [entry.size >= MAX_32 ? [entry.size, entry.size] : [], entry.offset >= MAX_32 ? [entry.offset] : []].flat();
+      const extra = wide.length ? zip64Extra(wide) : new Uint8Array(0);
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER_SIG, true);
+      header.setUint16(4, VERSION_ZIP64, true);
+      header.setUint16(6, wide.length ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+      header.setUint16(8, UTF8_FLAG, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size >= MAX_32 ? MAX_32 : entry.size, true);
+      header.setUint32(24, entry.size >= MAX_32 ? MAX_32 : entry.size, true);
+      header.setUint16(28, entry.nameBytes.length, true);
+      header.setUint16(30, extra.length, true);
+      header.setUint32(42, entry.offset >= MAX_32 ? MAX_32 : entry.offset, true);
+      push(concat([new Uint8Array(header.buffer), entry.nameBytes, extra]));
+    });
+    const centralSize = offset - centralStart;
+
+    const needsZip64 = entries.length >= MAX_16 || centralStart >= MAX_32 || centralSize >= MAX_32;
+    if (needsZip64) {
+      const zip64EndOffset = offset;
+      const record = new DataView(new ArrayBuffer(56));
+      record.setUint32(0, ZIP64_END_SIG, true);
+      record.setBigUint64(4, 44n, true);
+      record.setUint16(12, VERSION_ZIP64, true);
+      record.setUint16(14, VERSION_ZIP64, true);
+      record.setBigUint64(24, BigInt(entries.length), true);
+      record.setBigUint64(32, BigInt(entries.length), true);
+      record.setBigUint64(40, BigInt(centralSize), true);
+      record.setBigUint64(48, BigInt(centralStart), true);
+      push(new Uint8Array(record.buffer));
+      const locator = new DataView(new ArrayBuffer(20));
+      locator.setUint32(0, ZIP64_LOCATOR_SIG, true);
+      locator.setBigUint64(8, BigInt(zip64EndOffset), true);
+      locator.setUint32(16, 1, true);
+      push(new Uint8Array(locator.buffer));
+    }
+
+    const end = new DataView(new ArrayBuffer(END_MIN_BYTES));
+    end.setUint32(0, END_SIG, true);
+    end.setUint16(8, needsZip64 ? MAX_16 : entries.length, true);
+    end.setUint16(10, needsZip64 ? MAX_16 : entries.length, true);
+    end.setUint32(12, needsZip64 ? MAX_32 : centralSize, true);
+    end.setUint32(16, needsZip64 ? MAX_32 : centralStart, true);
+    push(new Uint8Array(end.buffer));
+    return new Blob(parts, { type: 'application/zip' });
+  };
+
+  return { add, finish };
+};
+
+const readView = async (blob: Blob, start: number, end: number) => new DataView(await blob.slice(start, end).arrayBuffer());
+
+// Reads the central directory; entry data stays on disk until openEntry slices it
+export const readZipEntries = async (archive: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(archive.size - END_MIN_BYTES - MAX_COMMENT_BYTES, 0);
+  const tail = await readView(archive, tailStart, archive.size);
+  let endPos = -1;
+  for (let i = tail.byteLength - END_MIN_BYTES; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_SIG) {
+      endPos = i;
+      break;
+    }
+  }
+  if (endPos < 0) throw new ZipFormatError('Not a ZIP archive.');
+
+  let count = tail.getUint16(endPos + 10, true);
+  let centralSize = tail.getUint32(endPos + 12, true);
+  let centralStart = tail.getUint32(endPos + 16, true);
+  if (count === MAX_16 || centralSize === MAX_32 || centralStart === MAX_32) {
+    const locatorPos = tailStart + endPos - 20;
+    const locator = await readView(archive, locatorPos, locatorPos + 20);
+    if (locator.getUint32(0, true) !== ZIP64_LOCATOR_SIG) throw new ZipFormatError('ZIP64 locator is missing.');
+    const recordPos = Number(locator.getBigUint64(8, true));
+    const record = await readView(archive, recordPos, recordPos + 56);
+    if (record.getUint32(0, true) !== ZIP64_END_SIG) throw new ZipFormatError('ZIP64 end record is missing.');
+    count = Number(record.getBigUint64(32, true));
+    centralSize = Number(record.getBigUint64(40, true));
+    centralStart = Number(record.getBigUint64(48, true));
+  }
+
+  const central = await readView(archive, centralStart, centralStart + centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== CENTRAL_HEADER_SIG) throw new ZipFormatError('Central directory is corrupt.');
+    const method = central.getUint16(pos + 10, true);
+    const crc = central.getUint32(pos + 16, true);
+    let compressed = central.getUint32(pos + 20, true);
+    let size = central.getUint32(pos + 24, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    let offset = central.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + pos + 46, nameLength));
+
+    // ZIP64 extra fields only carry the values whose 32-bit slot is saturated, in this order
+    let extraPos = pos + 46 + nameLength;
+    const extraEnd = extraPos + extraLength;
+    while (extraPos + 4 <= extraEnd) {
+      const id = central.getUint16(extraPos, true);
+      const length = central.getUint16(extraPos + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extraPos + 4;
+        const next = () => {
+          const value = Number(central.getBigUint64(field, true));
+          field += 8;
+          return value;
+        };
+        if (size === MAX_32) size = next();
+        if (compressed === MAX_32) compressed = next();
+        if (offset === MAX_32) offset = next();
+      }
+      extraPos += 4 + length;
+    }
+
+    if (method !== 0 || compressed !== size) throw new ZipFormatError(`"${name}" is compressed; only stored entries are supported.`);
+    entries.push({ name, size, crc, offset });
+    pos = extraEnd + commentLength;
+  }
+  return entries;
+};
+
+export const openEntry = async (archive: Blob, entry: ZipEntry): Promise<Blob> => {
+  const header = await readView(archive, entry.offset, entry.offset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIG) throw new ZipFormatError(`Local header for "${entry.name}" is corrupt.`);
+  const start = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  return archive.slice(start, start + entry.size);
+};
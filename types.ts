@@ -1,6 +1,8 @@
 
 export type FileCategory = 'all' | 'images' | 'videos' | 'documents' | 'others';
 
+export type LabelColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
 export interface BeeFile {
   id: string;
   name: string;
@@ -8,15 +10,121 @@ export interface BeeFile {
   size: number;
   lastModified: number;
   ownerId: string;
-  blobId: string; // Key in IndexedDB
+  blobId: string; // Key in IndexedDB; the content hash for content-addressed blobs
+  hash?: string; // SHA-256 of the content, absent on blobs stored before hashing
+  encrypted?: boolean; // Blob is AES-GCM ciphertext under the owner's data key
+  deletedAt?: number; // Set while the file sits in the trash
+  version?: number; // Number of the current content, absent on files never re-uploaded
+  uploadedAt?: number; // When the current content was stored
+  uploadedBy?: string; // Name of whoever stored the current content
+  tags?: string[]; // Normalized free-form tags, see tagService
+  starred?: boolean;
+  label?: LabelColor;
+  classification?: FileClassification; // BeeAI's reading of the current content, see classificationService
   category: FileCategory;
+  parentId: string | null; // Containing folder, null for the hive root
+}
+
+// The parts of a file its owner organizes by hand
+export type FileMarks = Pick<BeeFile, 'tags' | 'starred' | 'label'>;
+
+export type ClassificationStatus = 'suggested' | 'accepted' | 'dismissed';
+
+// What BeeAI made of a file. Suggestions change nothing until accepted, which
+// applies the category and tags to the file itself.
+export interface FileClassification {
+  category: Exclude<FileCategory, 'all'>;
+  tags: string[]; // Normalized like hand-made tags
+  title: string;
+  description: string;
+  sensitive: boolean; // Personal, financial, medical or credential data
+  blobId: string; // The content it describes; a re-upload gets a fresh one
+  provider: string; // 'local' for the offline stub, whose suggestions are not a real reading
+  model: string;
+  classifiedAt: number;
+  status: ClassificationStatus;
+}
+
+// An AI provider's answer, before it is attached to a file
+export type ClassificationSuggestion = Pick<FileClassification, 'category' | 'tags' | 'title' | 'description' | 'sensitive' | 'provider' | 'model'>;
+
+// Answers are kept per content, so the same bytes are never sent twice
+export interface AiCacheEntry {
+  id: string; // `${ownerId}:${provider}:${model}:${hash}`
+  ownerId: string;
+  suggestion: ClassificationSuggestion;
+  cachedAt: number;
+}
+
+// A superseded copy of a file's content, kept until restored, deleted or pruned by the cap
+export interface BeeFileVersion {
+  id: string;
+  fileId: string;
+  ownerId: string;
+  version: number;
+  blobId: string;
+  hash?: string;
+  encrypted?: boolean;
+  type: string;
+  size: number;
+  lastModified: number;
+  uploadedAt: number;
+  uploadedBy: string;
+}
+
+export interface BeeFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  ownerId: string;
+  createdAt: number;
+}
+
+export type ShareTargetKind = 'file' | 'folder';
+
+// A read-only link to one file or folder that opens without signing in
+export interface BeeShare {
+  token: string; // Random, and the only thing the link carries
+  ownerId: string;
+  ownerName: string;
+  targetId: string;
+  targetKind: ShareTargetKind;
+  name: string; // The target's name when shared, kept for the list if it is deleted
+  createdAt: number;
+  expiresAt: number;
+  passwordHash?: string; // Set, with salt and iterations, when the share has a password
+  salt?: string;
+  iterations?: number;
+  accessCount: number;
+  lastAccessedAt?: number;
+}
+
+// Work a stored file still needs after its upload
+export type FileTask = 'index' | 'thumbnail' | 'classify';
+
+// Journaled until done, so work cut short by closing the tab is picked up on the next launch
+export interface PendingJob {
+  id: string; // `${fileId}:${task}`
+  fileId: string;
+  ownerId: string;
+  task: FileTask;
+  queuedAt: number;
 }
 
+export type SearchScope = 'folder' | 'all';
+
+export type HiveView = 'hive' | 'trash';
+
+export type FileLayout = 'grid' | 'table';
+
+export type SortBy = 'name' | 'size' | 'type' | 'date' | 'category';
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  password?: string;
 }
 
 export enum StorageStatus {
@@ -26,6 +134,44 @@ export enum StorageStatus {
   ERROR = 'ERROR'
 }
 
+export type UploadItemStatus = 'queued' | 'writing' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  ownerId: string;
+  parentId: string | null;
+  uploadedBy: string;
+  status: UploadItemStatus;
+  loaded: number;
+  total: number;
+  error?: string;
+  deduplicated?: boolean;
+  version?: number; // Set when the upload became a new version of an existing file
+}
+
+export interface UploadSummary {
+  status: StorageStatus;
+  loaded: number;
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;
+}
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export interface QuotaInfo {
+  used: number;
+  limit: number; // Effective cap: the user's quota, or less if the browser has less room
+  remaining: number;
+  percent: number;
+  level: QuotaLevel;
+  browserBound: boolean; // The browser estimate, not the user's quota, is the tighter limit
+}
+
+export type HiveKeyState = 'disabled' | 'locked' | 'unlocked';
+
 export type AuthMode = 'landing' | 'login' | 'signup';
 
 export interface AuthState {
@@ -33,3 +179,11 @@ export interface AuthState {
   isAuthenticated: boolean;
   mode: AuthMode;
 }
+
+export type ArchiveImportMode = 'merge' | 'replace';
+
+export interface ArchiveProgress {
+  label: string;
+  loaded: number;
+  total: number;
+}
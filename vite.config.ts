@@ -1,7 +1,75 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { build as esbuild } from 'esbuild';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_ENTRY = path.resolve(__dirname, 'serviceWorker.ts');
+
+const listFiles = (dir: string): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+  const full = path.join(dir, entry.name);
+  return entry.isDirectory() ? listFiles(full) : [full];
+});
+
+// Bundles serviceWorker.ts on its own into /sw.js, so it shares no chunks with
+// the app, and bakes in the list of URLs to precache. The cache version follows
+// the content, so every deploy replaces the shell and nothing else does.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+
+  const bundle = async (precache: string[], version: string): Promise<string> => {
+    const result = await esbuild({
+      entryPoints: [SERVICE_WORKER_ENTRY],
+      bundle: true,
+      write: false,
+      format: 'iife',
+      minify: true,
+      target: 'es2022',
+      define: {
+        // The worker reads IndexedDB whatever the page is configured with, and never needs the API key
+        'process.env.STORAGE_BACKEND': 'undefined',
+        __PRECACHE_URLS__: JSON.stringify(precache),
+        __CACHE_VERSION__: JSON.stringify(version)
+      }
+    });
+    return result.outputFiles[0].text;
+  };
+
+  return {
+    name: 'bee-service-worker',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    // In development nothing is precached; the worker is there for the /blob/ route
+    configureServer(server) {
+      server.middlewares.use('/sw.js', (_req, res, next) => {
+        bundle([], 'dev').then(code => {
+          res.setHeader('Content-Type', 'text/javascript');
+          res.end(code);
+        }).catch(next);
+      });
+    },
+    async generateBundle(_options, output) {
+      const hash = createHash('sha256');
+      const urls = ['/index.html'];
+      Object.values(output).forEach(item => {
+        urls.push(`/${item.fileName}`);
+        hash.update(item.type === 'chunk' ? item.code : item.source);
+      });
+      if (publicDir && fs.existsSync(publicDir)) {
+        listFiles(publicDir).forEach(file => {
+          urls.push(`/${path.relative(publicDir, file).split(path.sep).join('/')}`);
+          hash.update(fs.readFileSync(file));
+        });
+      }
+      // Every browser with service workers reads woff2, so the woff fallbacks would only weigh down the install
+      const precache = Array.from(new Set(urls)).filter(url => !url.endsWith('.map') && !url.endsWith('.woff'));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: await bundle(precache, hash.digest('hex').slice(0, 12)) });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +77,13 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND)
       },
       resolve: {
         alias: {